@@ -1,42 +1,372 @@
-import Elysia from "elysia";
-import { Logestic } from "logestic";
-import { Spotify } from "./services/spotify";
+import Elysia, { StatusMap, t, type AnyElysia } from "elysia";
+import { swagger } from "@elysiajs/swagger";
+import { cron } from "@elysiajs/cron";
+import { Spotify, type SpotifyOptions } from "./services/spotify";
 import { TokenController } from "./controllers/token";
+import { MetricsController } from "./controllers/metrics";
+import { HealthController } from "./controllers/health";
+import { AdminController } from "./controllers/admin";
+import { StreamController } from "./controllers/stream";
+import { ConfigController } from "./controllers/config";
+import { TokenStreamHub, type StreamScope } from "./services/stream";
+import { WebhookDispatcher } from "./services/webhooks";
 import { ErrorMiddleware } from "./middleware/error";
-import { logs } from "./utils/logger";
+import { AuthMiddleware } from "./middleware/auth";
+import { RateLimitMiddleware } from "./middleware/ratelimit";
+import { enterRequestContext, logs } from "./utils/logger";
+import { metrics } from "./utils/metrics";
+import type { ApiClient, Cookie } from "./types/types";
+import { ConfigValidationError, RateLimitError } from "./utils/errors";
+import { getConfig, initConfig, type LoadConfigOptions } from "./config";
+import { errorResponse } from "./utils/response";
+import { CookiesInput, ErrorResponse, RawTokenResponse, ServiceStatusResponse, TokenBody, TokenFeedbackBody, TokenIntrospectBody, TokenIntrospectionResponse, TokenQuery, TokenResponse, VaultAccountBody } from "./types/schemas";
 
+export interface TokenServiceOptions extends SpotifyOptions {
+    /** Load the configuration from these instead of the process environment */
+    config?: LoadConfigOptions;
+}
+
+export type TokenServerOptions = TokenServiceOptions;
+
+/**
+ * Token service without the HTTP layer, for Bun services that want tokens in-process
+ * The configuration is process-wide: passing `config` replaces it for every instance
+ */
+export function createTokenService(options: TokenServiceOptions = {}): Spotify {
+    if (options.config) initConfig(options.config);
+    return new Spotify(options);
+}
 
-const SERVER_PORT = parseInt(process.env.PORT || '3000', 10);
+/**
+ * The full HTTP API; `start()` listens on PORT, `handle()` serves requests from
+ * another server, and `shutdown()` drains in-flight requests before tearing down
+ */
+export function createTokenServer(options: TokenServerOptions = {}): ApplicationServer {
+    if (options.config) initConfig(options.config);
+    return new ApplicationServer(options);
+}
 
-class ApplicationServer {
-    private readonly app: Elysia;
+export class ApplicationServer {
+    private readonly app: AnyElysia;
     public readonly tokenService: Spotify;
     private readonly tokenController: TokenController;
+    private readonly metricsController: MetricsController;
+    private readonly healthController: HealthController;
+    private readonly adminController: AdminController;
+    private readonly streamHub: TokenStreamHub;
+    private readonly streamController: StreamController;
+    private readonly configController: ConfigController;
+    private readonly webhooks: WebhookDispatcher;
+    private readonly authMiddleware: AuthMiddleware;
+    private readonly rateLimitMiddleware: RateLimitMiddleware;
+    private readonly inFlightRequests = new Set<Request>();
+    private readonly requestStarts = new WeakMap<Request, number>();
+    private shuttingDown: Promise<void> | null = null;
 
-    constructor() {
-        this.tokenService = new Spotify();
+    constructor(options: SpotifyOptions = {}) {
+        this.authMiddleware = new AuthMiddleware();
+        this.rateLimitMiddleware = new RateLimitMiddleware();
+        this.tokenService = new Spotify(options);
         this.tokenController = new TokenController(this.tokenService);
-        this.app = new Elysia()
-            .use(Logestic.preset('common'))
+        this.metricsController = new MetricsController(this.tokenService);
+        this.healthController = new HealthController(this.tokenService);
+        this.adminController = new AdminController(this.tokenService);
+        this.streamHub = new TokenStreamHub(this.tokenService);
+        this.streamController = new StreamController(this.streamHub);
+        this.configController = new ConfigController();
+        this.webhooks = new WebhookDispatcher(this.tokenService);
+        // The default normalizer spreads a malformed value into an empty record before
+        // validation, so `{ "cookies": 5 }` would pass as "no cookies"
+        this.app = new Elysia({ normalize: 'typebox' })
+            .onRequest(({ request, set }: { request: Request, set: any }) => {
+                this.requestStarts.set(request, performance.now());
+                const requestId = this.resolveRequestId(request.headers.get('x-request-id'));
+                enterRequestContext(requestId);
+                set.headers['x-request-id'] = requestId;
+
+                if (this.shuttingDown) {
+                    set.status = 503;
+                    set.headers['connection'] = 'close';
+                    return errorResponse('Service is shutting down');
+                }
+                // Streams stay open until the client leaves, shutdown closes them instead of waiting
+                if (!new URL(request.url).pathname.startsWith('/api/token/stream')) {
+                    this.inFlightRequests.add(request);
+                }
+            })
+            .onAfterResponse(({ request, route, set }: { request: Request, route: string, set: any }) => {
+                this.inFlightRequests.delete(request);
+                const status = typeof set.status === 'number'
+                    ? set.status
+                    : StatusMap[(set.status ?? 'OK') as keyof typeof StatusMap];
+                metrics.httpRequests.inc({
+                    route: route || 'unmatched',
+                    method: request.method,
+                    status: String(status ?? 200),
+                });
+
+                // Access log through the service logger, so it follows LOG_LEVEL/LOG_FORMAT and redaction
+                const startedAt = this.requestStarts.get(request);
+                const { pathname, search } = new URL(request.url);
+                logs('info', `${request.method} ${pathname}${search} ${status ?? 200}${startedAt === undefined ? '' : ` (${Math.round(performance.now() - startedAt)}ms)`}`);
+            })
+            // Registered before the routes, hooks only apply to routes added after them
+            .onError(({ code, error, set }) => {
+                return ErrorMiddleware.handle(String(code), error, (status) => {
+                    set.status = status;
+                });
+            })
+            .use(swagger({
+                path: '/docs',
+                documentation: {
+                    info: {
+                        title: 'Spotify Token Service',
+                        version: '1.0.0',
+                        description: 'Spotify access tokens for LavaSrc, backed by a headless browser',
+                    },
+                },
+            }))
+            .use(this.maintenanceSchedules())
             .decorate('tokenController', this.tokenController)
-            .get('/api/token', async ({ query, headers, set, tokenController }: { query: { force?: string; debug?: string }, headers: { cookie?: string }, set: any, tokenController: TokenController }) => {
+            .get('/api/token', async ({ query, headers, set, request, server, tokenController }: { query: typeof TokenQuery.static, headers: { cookie?: string; authorization?: string }, set: any, request: Request, server: any, tokenController: TokenController }) => {
                 const cookies = this.parseCookieHeader(headers.cookie);
+                const client = this.authMiddleware.authenticate(headers.authorization, query.api_key, server?.requestIP(request)?.address ?? 'unknown');
+                this.authorizeTokenRequest(client, cookies, query.account, query.force === 'true' || query.force === '1', set);
+
+                if (query.debug === 'true' || query.debug === '1') return tokenController.status();
                 return await tokenController.handle(query, cookies, (status) => {
                     set.status = status;
                 });
+            }, {
+                query: TokenQuery,
+                headers: t.Object({
+                    cookie: t.Optional(t.String({ description: 'May carry sp_dc for an authenticated token' })),
+                    authorization: t.Optional(t.String({ description: 'Bearer API key' })),
+                }),
+                response: {
+                    200: t.Union([TokenResponse, RawTokenResponse, ServiceStatusResponse]),
+                    400: ErrorResponse,
+                    401: ErrorResponse,
+                    403: ErrorResponse,
+                    404: ErrorResponse,
+                    429: ErrorResponse,
+                    500: ErrorResponse,
+                    503: ErrorResponse,
+                },
+                detail: {
+                    summary: 'Get a Spotify access token',
+                    description: 'Anonymous by default, authenticated when an sp_dc cookie is sent or a vault `account` is named. `force` skips the cache, `raw` returns the bare Spotify token, `debug` returns service status.',
+                    tags: ['Token'],
+                },
             })
-            .get('/health', () => ({
-                status: 'healthy',
-                timestamp: Date.now(),
-                uptime: process.uptime(),
-                version: `Bun v${Bun.version}`,
-                service: 'spotify-token-service'
-            }))
-            .onError(({ code, error, set }) => {
-                return ErrorMiddleware.handle(code, error, (status) => {
+            .post('/api/token', async ({ body, query, headers, set, request, server, tokenController }: { body: typeof TokenBody.static, query: { api_key?: string }, headers: { authorization?: string }, set: any, request: Request, server: any, tokenController: TokenController }) => {
+                const cookies = body.cookies ? this.cookieRecord(body.cookies) : undefined;
+                const client = this.authMiddleware.authenticate(headers.authorization, query.api_key, server?.requestIP(request)?.address ?? 'unknown');
+                this.authorizeTokenRequest(client, cookies, body.account, body.force === true, set);
+
+                return await tokenController.handle({
+                    account: body.account,
+                    force: body.force ? 'true' : undefined,
+                    raw: body.raw ? 'true' : undefined,
+                }, cookies, (status) => {
                     set.status = status;
                 });
-            });
+            }, {
+                body: TokenBody,
+                query: t.Object({ api_key: t.Optional(t.String()) }),
+                headers: t.Object({
+                    authorization: t.Optional(t.String({ description: 'Bearer API key' })),
+                }),
+                response: {
+                    200: t.Union([TokenResponse, RawTokenResponse]),
+                    400: ErrorResponse,
+                    401: ErrorResponse,
+                    403: ErrorResponse,
+                    404: ErrorResponse,
+                    429: ErrorResponse,
+                    500: ErrorResponse,
+                    503: ErrorResponse,
+                },
+                detail: {
+                    summary: 'Get a Spotify access token (JSON body)',
+                    description: 'Same as `GET /api/token`, but cookies are sent in the JSON body instead of a Cookie header, so they stay out of proxy and access logs.',
+                    tags: ['Token'],
+                },
+            })
+            .post('/api/token/feedback', ({ body, query, headers, set, request, server, tokenController }: { body: typeof TokenFeedbackBody.static, query: { api_key?: string }, headers: { authorization?: string }, set: any, request: Request, server: any, tokenController: TokenController }) => {
+                const client = this.authMiddleware.authenticate(headers.authorization, query.api_key, server?.requestIP(request)?.address ?? 'unknown');
+                this.rateLimitMiddleware.consume(client, 'authenticated', (name, value) => {
+                    set.headers[name] = value;
+                });
+
+                return tokenController.feedback(body, (status) => {
+                    set.status = status;
+                });
+            }, {
+                body: TokenFeedbackBody,
+                query: t.Object({ api_key: t.Optional(t.String()) }),
+                detail: {
+                    summary: 'Report a rate-limited token',
+                    description: 'Takes a pooled anonymous token out of rotation and replaces its session in the background (without a pool the anonymous token is replaced).',
+                    tags: ['Token'],
+                },
+            })
+            .post('/api/token/introspect', async ({ body, query, headers, set, request, server, tokenController }: { body: typeof TokenIntrospectBody.static, query: { api_key?: string }, headers: { authorization?: string }, set: any, request: Request, server: any, tokenController: TokenController }) => {
+                const client = this.authMiddleware.authenticate(headers.authorization, query.api_key, server?.requestIP(request)?.address ?? 'unknown');
+                this.rateLimitMiddleware.consume(client, body.validate ? 'authenticated' : 'anonymous', (name, value) => {
+                    set.headers[name] = value;
+                });
+
+                return await tokenController.introspect(body, (status) => {
+                    set.status = status;
+                });
+            }, {
+                body: TokenIntrospectBody,
+                query: t.Object({ api_key: t.Optional(t.String()) }),
+                response: {
+                    200: TokenIntrospectionResponse,
+                    401: ErrorResponse,
+                    404: ErrorResponse,
+                    429: ErrorResponse,
+                },
+                detail: {
+                    summary: 'Inspect a served token',
+                    description: 'Reports the age, remaining lifetime, client id, anonymity and last validation result of a token this service handed out. `validate` probes it against TOKEN_VALIDATION_URL first. The token goes in the body so it stays out of access logs.',
+                    tags: ['Token'],
+                },
+            })
+            .get('/api/config', ({ query, headers, set, request, server }: { query: { api_key?: string }, headers: { authorization?: string }, set: any, request: Request, server: any }) => {
+                const client = this.authMiddleware.authenticate(headers.authorization, query.api_key, server?.requestIP(request)?.address ?? 'unknown');
+                this.rateLimitMiddleware.consume(client, 'anonymous', (name, value) => {
+                    set.headers[name] = value;
+                });
+
+                return this.configController.handle();
+            }, {
+                query: t.Object({ api_key: t.Optional(t.String()) }),
+                detail: {
+                    summary: 'Effective configuration',
+                    description: 'Every setting after merging defaults, the config file and env vars, with secrets redacted. `sources` names where each non-default value came from.',
+                    tags: ['Service'],
+                },
+            })
+            .get('/api/token/stream', ({ query, headers, set, request, server }: { query: { api_key?: string; scope?: StreamScope }, headers: { authorization?: string }, set: any, request: Request, server: any }) => {
+                const scope = query.scope ?? 'anonymous';
+                const client = this.authMiddleware.authenticate(headers.authorization, query.api_key, server?.requestIP(request)?.address ?? 'unknown');
+                this.rateLimitMiddleware.consume(client, scope === 'account' ? 'authenticated' : 'anonymous', (name, value) => {
+                    set.headers[name] = value;
+                });
+
+                return this.streamController.sse(client, scope, request.signal, (status) => {
+                    set.status = status;
+                });
+            }, {
+                query: t.Object({
+                    api_key: t.Optional(t.String()),
+                    scope: t.Optional(t.Union([t.Literal('anonymous'), t.Literal('account')])),
+                }),
+                detail: {
+                    summary: 'Stream token rotations (Server-Sent Events)',
+                    description: 'Sends the current token on connect, a `token` event on every rotation and periodic `heartbeat` events. `scope=account` follows the Spotify account registered for the API key.',
+                    tags: ['Token'],
+                },
+            })
+            .ws('/api/token/stream/ws', {
+                query: t.Object({
+                    api_key: t.Optional(t.String()),
+                    scope: t.Optional(t.Union([t.Literal('anonymous'), t.Literal('account')])),
+                }),
+                open: (ws: any) => {
+                    const { query, headers } = ws.data as { query: { api_key?: string; scope?: StreamScope }, headers: Record<string, string | undefined> };
+                    const scope = query.scope ?? 'anonymous';
+
+                    try {
+                        const client = this.authMiddleware.authenticate(headers.authorization, query.api_key, ws.remoteAddress ?? 'unknown');
+                        this.rateLimitMiddleware.consume(client, scope === 'account' ? 'authenticated' : 'anonymous', () => undefined);
+                        this.streamController.open(ws, client, scope);
+                    } catch (error) {
+                        const code = error instanceof RateLimitError ? 4429 : 4401;
+                        ws.close(code, error instanceof Error ? error.message : 'Unauthorized');
+                    }
+                },
+                close: (ws: any) => this.streamController.close(ws),
+            })
+            .get('/metrics', ({ set }: { set: any }) => {
+                set.headers['content-type'] = 'text/plain; version=0.0.4; charset=utf-8';
+                return this.metricsController.handle();
+            })
+            .get('/health/live', () => this.healthController.live())
+            .get('/health/ready', ({ set }: { set: any }) => this.healthController.ready((status) => {
+                set.status = status;
+            }))
+            .get('/health', ({ set }: { set: any }) => this.healthController.ready((status) => {
+                set.status = status;
+            }))
+            .group('/admin', (admin) => admin
+                .derive(({ headers }: { headers: Record<string, string | undefined> }) => ({
+                    actor: this.authMiddleware.authenticateAdmin(headers.authorization),
+                }))
+                .get('/tokens', ({ actor }: { actor: ApiClient }) => this.adminController.listTokens(actor))
+                .delete('/tokens/anonymous', ({ actor }: { actor: ApiClient }) => this.adminController.invalidateAnonymous(actor))
+                .delete('/tokens/accounts/:account', ({ actor, params, set }: { actor: ApiClient, params: { account: string }, set: any }) =>
+                    this.adminController.invalidateAccount(actor, params.account, (status) => {
+                        set.status = status;
+                    }))
+                .post('/refresh', ({ actor, set }: { actor: ApiClient, set: any }) => this.adminController.refresh(actor, (status) => {
+                    set.status = status;
+                }))
+                .post('/browser/restart', ({ actor, set }: { actor: ApiClient, set: any }) => this.adminController.restartBrowser(actor, (status) => {
+                    set.status = status;
+                }))
+                .post('/browser/recycle', ({ actor }: { actor: ApiClient }) => this.adminController.recycleBrowser(actor))
+                .post('/browser/fingerprint/reload', ({ actor, set }: { actor: ApiClient, set: any }) => this.adminController.reloadFingerprint(actor, (status) => {
+                    set.status = status;
+                }))
+                .get('/accounts', ({ actor }: { actor: ApiClient }) => this.adminController.listAccounts(actor))
+                .put('/accounts/:name', ({ actor, params, body, set }: { actor: ApiClient, params: { name: string }, body: typeof VaultAccountBody.static, set: any }) => {
+                    const cookies: Cookie[] = body.cookies ? this.toCookies(body.cookies) : [];
+                    if (body.spDc) cookies.push({ name: 'sp_dc', value: body.spDc });
+
+                    return this.adminController.saveAccount(actor, params.name, cookies, (status) => {
+                        set.status = status;
+                    });
+                }, { body: VaultAccountBody })
+                .delete('/accounts/:name', ({ actor, params }: { actor: ApiClient, params: { name: string } }) =>
+                    this.adminController.deleteAccount(actor, params.name))
+                .post('/refresh-loop/pause', ({ actor }: { actor: ApiClient }) => this.adminController.setRefreshLoop(actor, true))
+                .post('/refresh-loop/resume', ({ actor }: { actor: ApiClient }) => this.adminController.setRefreshLoop(actor, false))
+            );
+    }
+
+    /**
+     * Cron-style maintenance windows (`BROWSER_RECYCLE_CRON`, `;`-separated) recycle the browser
+     */
+    private maintenanceSchedules() {
+        const { cron: patterns, cronTimezone } = getConfig().browser.recycle;
+
+        return (app: Elysia) => patterns.reduce((scheduled: Elysia, pattern, index) => scheduled.use(cron({
+            name: `browser-recycle-${index + 1}`,
+            pattern,
+            timezone: cronTimezone,
+            protect: true,
+            run: () => this.tokenService.recycleBrowser(`schedule ${pattern}`),
+        })) as unknown as Elysia, app);
+    }
+
+    private resolveRequestId(header: string | null): string {
+        return header && /^[\w.:-]{1,128}$/.test(header) ? header : crypto.randomUUID();
+    }
+
+    /**
+     * Authenticated tokens (sp_dc, vault account or force) are billed to the costlier tier
+     */
+    private authorizeTokenRequest(client: ApiClient, cookies: Record<string, string> | undefined, account: string | undefined, force: boolean, set: any): void {
+        if (account) this.authMiddleware.authorizeAccount(client, account);
+
+        const costly = !!cookies?.sp_dc || !!account || force;
+        this.rateLimitMiddleware.consume(client, costly ? 'authenticated' : 'anonymous', (name, value) => {
+            set.headers[name] = value;
+        });
     }
 
     private parseCookieHeader(cookieHeader?: string): Record<string, string> | undefined {
@@ -45,52 +375,156 @@ class ApplicationServer {
         const cookies: Record<string, string> = {};
 
         cookieHeader.split(';').forEach(cookie => {
-            const [name, value] = cookie.trim().split('=');
+            // Values may contain '=' (base64 padding), only the first one separates the name
+            const separator = cookie.indexOf('=');
+            if (separator === -1) return;
+
+            const name = cookie.slice(0, separator).trim();
+            const value = cookie.slice(separator + 1).trim();
             if (name && value) {
-                cookies[name] = decodeURIComponent(value);
+                cookies[name] = this.decodeCookieValue(value);
             }
         });
 
         return Object.keys(cookies).length > 0 ? cookies : undefined;
     }
 
+    private decodeCookieValue(value: string): string {
+        try {
+            return decodeURIComponent(value);
+        } catch {
+            return value;
+        }
+    }
+
+    private toCookies(input: typeof CookiesInput.static): Cookie[] {
+        return Array.isArray(input)
+            ? input.map(({ name, value }) => ({ name, value }))
+            : Object.entries(input).map(([name, value]) => ({ name, value }));
+    }
+
+    private cookieRecord(input: typeof CookiesInput.static): Record<string, string> | undefined {
+        const cookies = Object.fromEntries(this.toCookies(input).filter(cookie => cookie.name && cookie.value).map(cookie => [cookie.name, cookie.value]));
+        return Object.keys(cookies).length > 0 ? cookies : undefined;
+    }
+
+    /**
+     * Serve a request without listening, for embedding in another Bun server
+     */
+    public handle(request: Request): Promise<Response> {
+        return this.app.handle(request);
+    }
+
+    /**
+     * New requests get 503 right away; requests and token fetches already running
+     * get SHUTDOWN_GRACE_PERIOD_MS to finish before the listener, schedules,
+     * browser and store are closed, in that order. Safe to call more than once
+     */
+    public shutdown(): Promise<void> {
+        this.shuttingDown ??= this.drainAndClose();
+        return this.shuttingDown;
+    }
+
+    private async drainAndClose(): Promise<void> {
+        const gracePeriod = getConfig().server.shutdownGracePeriodMs;
+
+        const jobs = (this.app.store as { cron?: Record<string, { stop(): void }> }).cron ?? {};
+        Object.values(jobs).forEach(job => job.stop());
+        this.streamHub.close();
+
+        const [requestsDone, fetchesDone] = await Promise.all([
+            this.waitForRequests(gracePeriod),
+            this.tokenService.drain(gracePeriod),
+        ]);
+        if (!requestsDone || !fetchesDone) {
+            logs('warn', `Shutdown grace period of ${gracePeriod}ms elapsed - closing with ${this.inFlightRequests.size} requests still in flight`);
+        }
+
+        if (this.app.server) await this.app.stop(true);
+        this.webhooks.close();
+        await this.tokenService.cleanup();
+    }
+
+    private async waitForRequests(timeoutMs: number): Promise<boolean> {
+        const deadline = Date.now() + timeoutMs;
+        if (this.inFlightRequests.size > 0) {
+            logs('info', `Waiting up to ${timeoutMs}ms for ${this.inFlightRequests.size} in-flight requests`);
+        }
+
+        while (this.inFlightRequests.size > 0) {
+            if (Date.now() >= deadline) return false;
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        return true;
+    }
+
     public start(): void {
+        const SERVER_PORT = getConfig().server.port;
         this.app.listen(SERVER_PORT, () => {
             logs('info', '🚀 Spotify Token Service Started');
             logs('info', `📡 Server: http://localhost:${SERVER_PORT}`);
             logs('info', `🎯 Token API: http://localhost:${SERVER_PORT}/api/token`);
-            logs('info', `💚 Health Check: http://localhost:${SERVER_PORT}/health`);
+            logs('info', `💚 Health Check: http://localhost:${SERVER_PORT}/health/live, /health/ready`);
+            logs('info', `📻 Token Stream: http://localhost:${SERVER_PORT}/api/token/stream (SSE), ws://localhost:${SERVER_PORT}/api/token/stream/ws`);
+            logs('info', `📊 Metrics: http://localhost:${SERVER_PORT}/metrics`);
             logs('info', `🔧 Debug Info: http://localhost:${SERVER_PORT}/api/token?debug=true`);
             logs('info', '');
             logs('info', '📋 Usage:');
             logs('info', `  • Anonymous: curl http://localhost:${SERVER_PORT}/api/token`);
-            logs('info', `  • Authenticated: curl -H "Cookie: sp_dc=your_cookie" http://localhost:${SERVER_PORT}/api/token`);
+            logs('info', `  • Authenticated: curl -H "Cookie: sp_dc=<sp_dc>" http://localhost:${SERVER_PORT}/api/token`);
+            logs('info', `  • Vault account: curl -H "Authorization: Bearer <api-key>" "http://localhost:${SERVER_PORT}/api/token?account=main"`);
         });
     }
 }
 
-const server = new ApplicationServer();
-server.start();
+async function main(): Promise<void> {
+    let server: ApplicationServer;
+    try {
+        initConfig();
+        server = createTokenServer();
+    } catch (error) {
+        if (!(error instanceof ConfigValidationError)) throw error;
+
+        logs('error', `❌ Invalid ${error.source} - refusing to start:\n${error.errors.map(problem => `  • ${problem}`).join('\n')}`);
+        process.exit(1);
+    }
+    server.start();
+
+    process.on('uncaughtException', async (error) => {
+        logs('error', '💥 Uncaught Exception', error);
+        await server.shutdown();
+        process.exit(1);
+    });
 
-process.on('uncaughtException', async (error) => {
-    logs('error', '💥 Uncaught Exception', error);
-    await server.tokenService.cleanup();
-    process.exit(1);
-});
+    process.on('unhandledRejection', async (reason) => {
+        logs('error', '💥 Unhandled Rejection', reason);
+        await server.shutdown();
+        process.exit(1);
+    });
 
-process.on('unhandledRejection', async (reason) => {
-    logs('error', '💥 Unhandled Rejection', reason);
-    await server.tokenService.cleanup();
-    process.exit(1);
-});
 
+    const gracefulShutdown = async (signal: string) => {
+        logs('info', `🛑 Received ${signal} - Initiating graceful shutdown...`);
+        await server.shutdown();
+        logs('info', '✅ Graceful shutdown completed');
+        process.exit(0);
+    };
 
-const gracefulShutdown = async (signal: string) => {
-    logs('info', `🛑 Received ${signal} - Initiating graceful shutdown...`);
-    await server.tokenService.cleanup();
-    logs('info', '✅ Graceful shutdown completed');
-    process.exit(0);
-};
+    // The config file and env are re-read first, so BROWSER_* settings and the log level change too
+    process.on('SIGHUP', () => {
+        try {
+            initConfig();
+            server.tokenService.reloadBrowserFingerprint();
+        } catch (error) {
+            logs('error', 'Reload failed - keeping the current configuration and browser fingerprint', error);
+        }
+    });
 
-process.on('SIGINT', () => gracefulShutdown('SIGINT'));
-process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
\ No newline at end of file
+    process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+    process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+}
+
+// Importing this module (the package entry) only exposes the API, running it starts the server
+if (import.meta.main) {
+    await main();
+}
@@ -0,0 +1,243 @@
+#!/usr/bin/env bun
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { getConfig, initConfig } from './config';
+import { ResilientTokenProvider, TokenProviderChain, createTokenProviders } from './services/providers';
+import type { Cookie, SpotifyToken } from './types/types';
+import { ConfigValidationError, TokenFetchError } from './utils/errors';
+import { logToStderr } from './utils/logger';
+import { withDeadline } from './utils/singleflight';
+
+const EXIT = {
+    ok: 0,
+    error: 1,
+    usage: 2,
+    timeout: 3,
+    invalidCookie: 4,
+    launchFailure: 5,
+    unavailable: 6,
+} as const;
+
+type OutputFormat = 'json' | 'env' | 'raw';
+
+const USAGE = `Usage:
+  spotokn token [--sp-dc VALUE | --cookie-file FILE] [--format json|env|raw] [--timeout MS] [--verbose]
+  spotokn status [--url URL] [--api-key KEY]
+
+Exit codes:
+  0 success, 1 error, 2 usage or configuration error, 3 timeout,
+  4 sp_dc cookie rejected, 5 browser launch failure, 6 server unavailable`;
+
+class UsageError extends Error { }
+
+/**
+ * Fetch one token through the configured provider chain (TOKEN_PROVIDERS) and print it,
+ * with the same retries and circuit breaker as the server
+ */
+async function tokenCommand(args: string[]): Promise<number> {
+    const { values } = parseArgs({
+        args,
+        options: {
+            'sp-dc': { type: 'string' },
+            'cookie-file': { type: 'string' },
+            format: { type: 'string', default: 'json' },
+            timeout: { type: 'string' },
+            verbose: { type: 'boolean', default: false },
+        },
+    });
+
+    if (values['sp-dc'] && values['cookie-file']) {
+        throw new UsageError('Use either --sp-dc or --cookie-file, not both');
+    }
+    const format = values.format as OutputFormat;
+    if (!['json', 'env', 'raw'].includes(format)) {
+        throw new UsageError(`Unknown format "${format}" - expected json, env or raw`);
+    }
+    const timeoutMs = values.timeout === undefined ? undefined : parseInt(values.timeout, 10);
+    if (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || timeoutMs <= 0)) {
+        throw new UsageError('--timeout must be a positive number of milliseconds');
+    }
+
+    initConfig({ env: { ...process.env, LOG_LEVEL: process.env.LOG_LEVEL || (values.verbose ? 'debug' : 'warn') } });
+
+    const cookies = values['cookie-file']
+        ? readCookieFile(values['cookie-file'])
+        : values['sp-dc'] ? [{ name: 'sp_dc', value: values['sp-dc'] }] : [];
+    const authenticated = cookies.some(cookie => cookie.name === 'sp_dc');
+    if (values['cookie-file'] && !authenticated) {
+        throw new UsageError(`${values['cookie-file']} contains no sp_dc cookie`);
+    }
+
+    const providers = new ResilientTokenProvider(new TokenProviderChain(createTokenProviders()));
+    try {
+        const pending = providers.getToken(cookies);
+        const token = timeoutMs === undefined
+            ? await pending
+            : await withDeadline(pending, timeoutMs, () => new TokenFetchError(`No token within ${timeoutMs}ms`, 'timeout'));
+
+        process.stdout.write(formatToken(token, format));
+        return EXIT.ok;
+    } finally {
+        await providers.close();
+    }
+}
+
+/**
+ * Print the debug status of a running server
+ */
+async function statusCommand(args: string[]): Promise<number> {
+    const { values } = parseArgs({
+        args,
+        options: {
+            url: { type: 'string' },
+            'api-key': { type: 'string' },
+        },
+    });
+
+    initConfig({ env: { ...process.env, LOG_LEVEL: process.env.LOG_LEVEL || 'warn' } });
+
+    const base = values.url ?? `http://localhost:${getConfig().server.port}`;
+    const headers: Record<string, string> = values['api-key'] ? { authorization: `Bearer ${values['api-key']}` } : {};
+
+    let response: Response;
+    try {
+        response = await fetch(new URL('/api/token?debug=true', base), { headers, signal: AbortSignal.timeout(10000) });
+    } catch (error) {
+        console.error(`Server at ${base} is not reachable: ${error instanceof Error ? error.message : error}`);
+        return EXIT.unavailable;
+    }
+
+    const body = await response.text();
+    if (!response.ok) {
+        console.error(`Server at ${base} answered HTTP ${response.status}: ${body}`);
+        return response.status === 401 || response.status === 403 ? EXIT.usage : EXIT.unavailable;
+    }
+
+    process.stdout.write(`${JSON.stringify(JSON.parse(body), null, 2)}\n`);
+    return EXIT.ok;
+}
+
+function formatToken(token: SpotifyToken, format: OutputFormat): string {
+    switch (format) {
+        case 'raw':
+            return `${token.accessToken}\n`;
+        case 'env':
+            return [
+                `SPOTIFY_ACCESS_TOKEN=${token.accessToken}`,
+                `SPOTIFY_ACCESS_TOKEN_EXPIRES_AT=${token.accessTokenExpirationTimestampMs}`,
+                `SPOTIFY_CLIENT_ID=${token.clientId}`,
+                `SPOTIFY_TOKEN_ANONYMOUS=${token.isAnonymous}`,
+                '',
+            ].join('\n');
+        default:
+            return `${JSON.stringify({
+                accessToken: token.accessToken,
+                accessTokenExpirationTimestampMs: token.accessTokenExpirationTimestampMs,
+                clientId: token.clientId,
+                isAnonymous: token.isAnonymous,
+                provider: token.provider ?? null,
+            }, null, 2)}\n`;
+    }
+}
+
+/**
+ * Cookies from a browser export: a JSON list or map, a Netscape cookies.txt,
+ * or a plain `name=value; name=value` header; other sites' cookies are skipped
+ */
+function readCookieFile(path: string): Cookie[] {
+    let content: string;
+    try {
+        content = readFileSync(path, 'utf8').trim();
+    } catch (error) {
+        throw new UsageError(`Cannot read ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (content.startsWith('[') || content.startsWith('{')) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(content);
+        } catch {
+            throw new UsageError(`${path} is not valid JSON`);
+        }
+
+        const entries: unknown[] = Array.isArray(parsed)
+            ? parsed
+            : Object.entries(parsed as Record<string, unknown>).map(([name, value]) => ({ name, value }));
+        if (!entries.every(isCookieEntry)) {
+            throw new UsageError(`${path} must list cookie objects ({ "name", "value", "domain" })`);
+        }
+        return entries
+            .filter(entry => typeof entry.name === 'string' && typeof entry.value === 'string')
+            .filter(entry => typeof entry.domain !== 'string' || entry.domain.includes('spotify'))
+            .map(entry => ({ name: entry.name as string, value: entry.value as string }));
+    }
+
+    // sp_dc is HttpOnly, which cookies.txt marks with a prefix that looks like a comment
+    const lines = content.split('\n')
+        .map(line => line.trim().replace(/^#HttpOnly_/, ''))
+        .filter(line => line && !line.startsWith('#'));
+    if (lines.some(line => line.split('\t').length === 7)) {
+        return lines
+            .map(line => line.split('\t'))
+            .filter(fields => fields.length === 7 && fields[0]!.includes('spotify'))
+            .map(fields => ({ name: fields[5]!, value: fields[6]! }));
+    }
+
+    return content.split(';')
+        .map(pair => pair.trim())
+        .filter(pair => pair.includes('='))
+        .map(pair => ({ name: pair.slice(0, pair.indexOf('=')).trim(), value: pair.slice(pair.indexOf('=') + 1).trim() }));
+}
+
+function isCookieEntry(entry: unknown): entry is { name?: unknown; value?: unknown; domain?: unknown } {
+    return typeof entry === 'object' && entry !== null && !Array.isArray(entry);
+}
+
+function exitCodeFor(error: unknown): number {
+    if (error instanceof UsageError || error instanceof ConfigValidationError) return EXIT.usage;
+    if (!(error instanceof TokenFetchError)) return EXIT.error;
+
+    switch (error.reason) {
+        case 'timeout':
+            return EXIT.timeout;
+        case 'invalid_cookie':
+            return EXIT.invalidCookie;
+        case 'launch_failure':
+            return EXIT.launchFailure;
+        default:
+            return EXIT.error;
+    }
+}
+
+async function main(argv: string[]): Promise<number> {
+    logToStderr();
+    const [command, ...args] = argv;
+
+    try {
+        switch (command) {
+            case 'token':
+                return await tokenCommand(args);
+            case 'status':
+                return await statusCommand(args);
+            case 'help':
+            case '--help':
+            case '-h':
+                console.log(USAGE);
+                return EXIT.ok;
+            default:
+                throw new UsageError(command ? `Unknown command "${command}"` : 'Missing command');
+        }
+    } catch (error) {
+        if (error instanceof ConfigValidationError) {
+            console.error(`Invalid ${error.source}:\n${error.errors.map(problem => `  • ${problem}`).join('\n')}`);
+        } else if (error instanceof UsageError || (error instanceof TypeError && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS'))) {
+            console.error(`${error.message}\n\n${USAGE}`);
+            return EXIT.usage;
+        } else {
+            console.error(error instanceof Error ? error.message : error);
+        }
+        return exitCodeFor(error);
+    }
+}
+
+process.exit(await main(process.argv.slice(2)));
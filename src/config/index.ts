@@ -0,0 +1,190 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { ConfigValidationError } from '../utils/errors';
+import { checkFiles } from './files';
+import { CONFIG_SCHEMA } from './schema';
+import { Setting } from './settings';
+
+type Schema = { [key: string]: Setting<unknown> | Schema };
+
+type Resolved<S> = {
+    readonly [K in keyof S]: S[K] extends Setting<infer T> ? T : Resolved<S[K]>;
+};
+
+export type Config = Resolved<typeof CONFIG_SCHEMA>;
+
+export type ConfigSource = 'default' | 'file' | 'env';
+
+export interface LoadedConfig {
+    config: Config;
+    /** Config file that was read, null when none */
+    file: string | null;
+    /** Where each setting came from, keyed by its dotted path */
+    sources: Record<string, ConfigSource>;
+}
+
+export interface LoadConfigOptions {
+    env?: Record<string, string | undefined>;
+    /** Config file path, CONFIG_FILE (or ./spotokn.config.json when present) by default */
+    file?: string | null;
+}
+
+const DEFAULT_CONFIG_FILE = './spotokn.config.json';
+const REDACTED = '[REDACTED]';
+
+let loaded: LoadedConfig | null = null;
+
+/**
+ * Merge defaults, the config file and env vars, collecting every problem
+ * instead of stopping at the first; throws ConfigValidationError listing them all
+ */
+export function loadConfig({ env = process.env, file }: LoadConfigOptions = {}): LoadedConfig {
+    const errors: string[] = [];
+    const sources: Record<string, ConfigSource> = {};
+
+    const path = file === undefined ? configFilePath(env) : file;
+    let fileValues: Record<string, unknown> = {};
+    if (path) {
+        try {
+            const parsed = JSON.parse(readFileSync(path, 'utf8'));
+            if (!isObject(parsed)) throw new Error('expected a JSON object');
+            fileValues = parsed;
+        } catch (error) {
+            errors.push(`config file ${path}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    const config = resolve(CONFIG_SCHEMA, fileValues, env, '', errors, sources) as Config;
+    errors.push(...crossCheck(config));
+    // Files are only read once the paths themselves are valid
+    if (errors.length === 0) errors.push(...checkFiles(config));
+
+    if (errors.length > 0) throw new ConfigValidationError('configuration', errors);
+    return { config, file: path, sources };
+}
+
+/**
+ * Validate and install the process-wide configuration, call once at startup
+ */
+export function initConfig(options?: LoadConfigOptions): Config {
+    loaded = loadConfig(options);
+    return loaded.config;
+}
+
+/**
+ * The process-wide configuration, loaded from the environment on first use
+ */
+export function getConfig(): Config {
+    loaded ??= loadConfig();
+    return loaded.config;
+}
+
+/**
+ * Effective configuration for operators, secrets replaced and non-default sources listed
+ */
+export function describeConfig() {
+    const { config, file, sources } = loaded ?? (loaded = loadConfig());
+
+    return {
+        file,
+        config: redact(CONFIG_SCHEMA, config as unknown as Record<string, unknown>),
+        sources: Object.fromEntries(Object.entries(sources).filter(([, source]) => source !== 'default')),
+    };
+}
+
+function configFilePath(env: Record<string, string | undefined>): string | null {
+    if (env.CONFIG_FILE) return env.CONFIG_FILE;
+    return existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : null;
+}
+
+function resolve(
+    schema: Schema,
+    fileValues: Record<string, unknown>,
+    env: Record<string, string | undefined>,
+    prefix: string,
+    errors: string[],
+    sources: Record<string, ConfigSource>,
+): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (const [key, entry] of Object.entries(schema)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        const fromFile = fileValues[key];
+
+        if (!(entry instanceof Setting)) {
+            if (fromFile !== undefined && !isObject(fromFile)) {
+                errors.push(`${path} (config file): expected an object`);
+            }
+            result[key] = resolve(entry, isObject(fromFile) ? fromFile : {}, env, path, errors, sources);
+            continue;
+        }
+
+        const fromEnv = env[entry.env];
+        const source: ConfigSource = fromEnv !== undefined && fromEnv.trim() !== ''
+            ? 'env'
+            : fromFile !== undefined && fromFile !== null ? 'file' : 'default';
+
+        sources[path] = source;
+        if (source === 'default') {
+            result[key] = entry.defaultValue;
+            continue;
+        }
+
+        try {
+            result[key] = entry.parse(source === 'env' ? fromEnv : fromFile);
+        } catch (error) {
+            const origin = source === 'env' ? entry.env : 'config file';
+            errors.push(`${path} (${origin}): ${error instanceof Error ? error.message : error}`);
+            result[key] = entry.defaultValue;
+        }
+    }
+
+    for (const key of Object.keys(fileValues)) {
+        if (!(key in schema)) {
+            errors.push(`${prefix ? `${prefix}.${key}` : key} (config file): unknown setting`);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Rules spanning several settings
+ */
+function crossCheck(config: Config): string[] {
+    const errors: string[] = [];
+
+    if (config.providers.order.includes('http') && !config.providers.httpUrl) {
+        errors.push('providers.httpUrl (HTTP_PROVIDER_URL) is required when the http provider is enabled');
+    }
+    if (config.providers.order.includes('static') && !config.providers.staticTokenFile) {
+        errors.push('providers.staticTokenFile (STATIC_TOKEN_FILE) is required when the static provider is enabled');
+    }
+    if (config.retry.maxDelayMs < config.retry.baseDelayMs) {
+        errors.push('retry.maxDelayMs (FETCH_RETRY_MAX_DELAY_MS) must not be below retry.baseDelayMs');
+    }
+    if (config.webhooks.retryMaxDelayMs < config.webhooks.retryBaseDelayMs) {
+        errors.push('webhooks.retryMaxDelayMs (WEBHOOK_RETRY_MAX_DELAY_MS) must not be below webhooks.retryBaseDelayMs');
+    }
+
+    return errors;
+}
+
+function redact(schema: Schema, values: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(schema).map(([key, entry]) => {
+        const value = values[key];
+        if (!(entry instanceof Setting)) return [key, redact(entry, value as Record<string, unknown>)];
+        if (!entry.secret || isEmpty(value)) return [key, value ?? null];
+        return [key, REDACTED];
+    }));
+}
+
+function isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null) return true;
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object') return Object.keys(value).length === 0;
+    return false;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
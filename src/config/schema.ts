@@ -0,0 +1,127 @@
+import { bool, checkCronPattern, checkLocale, checkOneOf, checkRegExp, checkTimeZone, checkUrl, int, list, num, oneOf, optionalText, record, text } from './settings';
+
+/**
+ * Every tunable of the service, grouped as in the config file
+ * Env vars win over the config file, which wins over the defaults here
+ */
+export const CONFIG_SCHEMA = {
+    server: {
+        port: int('PORT', 3000, { min: 1, max: 65535 }),
+        shutdownGracePeriodMs: int('SHUTDOWN_GRACE_PERIOD_MS', 15000),
+    },
+    logging: {
+        level: oneOf('LOG_LEVEL', ['debug', 'info', 'warn', 'error'], 'info'),
+        format: oneOf('LOG_FORMAT', ['text', 'json'], 'text'),
+    },
+    auth: {
+        apiKeys: list('API_KEYS', [], { secret: true }),
+        apiKeysFile: optionalText('API_KEYS_FILE'),
+        adminApiKeys: list('ADMIN_API_KEYS', [], { secret: true }),
+    },
+    rateLimit: {
+        anonymous: int('RATE_LIMIT_ANONYMOUS', 120, { min: 1 }),
+        authenticated: int('RATE_LIMIT_AUTHENTICATED', 10, { min: 1 }),
+        windowMs: int('RATE_LIMIT_WINDOW_MS', 60000, { min: 1000 }),
+        perIp: bool('RATE_LIMIT_PER_IP', true),
+    },
+    health: {
+        maxRefreshAgeMs: int('HEALTH_MAX_REFRESH_AGE_MS', 3600000, { min: 1000 }),
+        maxFailureRate: num('HEALTH_MAX_FAILURE_RATE', 0.5, { max: 1 }),
+        minFailureSamples: int('HEALTH_MIN_FAILURE_SAMPLES', 3),
+        failureWindowMs: int('HEALTH_FAILURE_WINDOW_MS', 300000, { min: 1000 }),
+    },
+    tokens: {
+        refreshBufferMs: int('TOKEN_REFRESH_BUFFER_MS', 5 * 60 * 1000),
+        refreshCheckIntervalMs: int('TOKEN_REFRESH_CHECK_INTERVAL_MS', 60 * 1000, { min: 1000 }),
+        forceRefreshCooldownMs: int('FORCE_REFRESH_COOLDOWN_MS', 30000),
+        accountCacheSize: int('ACCOUNT_CACHE_SIZE', 100, { min: 1 }),
+        accountExpiryBufferMs: int('ACCOUNT_EXPIRY_BUFFER_MS', 60000),
+        refreshLockTtlMs: int('REFRESH_LOCK_TTL_MS', 30000, { min: 1000 }),
+        refreshWaitTimeoutMs: int('REFRESH_WAIT_TIMEOUT_MS', 60000, { min: 1000 }),
+        refreshFailureAlertThreshold: int('REFRESH_FAILURE_ALERT_THRESHOLD', 3, { min: 1 }),
+    },
+    validation: {
+        probeUrl: optionalText('TOKEN_VALIDATION_URL', { check: checkUrl }),
+        intervalMs: int('TOKEN_VALIDATION_INTERVAL_MS', 60000),
+        timeoutMs: int('TOKEN_VALIDATION_TIMEOUT_MS', 3000, { min: 100 }),
+    },
+    retry: {
+        attempts: int('FETCH_RETRY_ATTEMPTS', 3, { min: 1, max: 10 }),
+        baseDelayMs: int('FETCH_RETRY_BASE_DELAY_MS', 500),
+        maxDelayMs: int('FETCH_RETRY_MAX_DELAY_MS', 5000),
+    },
+    breaker: {
+        failureThreshold: int('BREAKER_FAILURE_THRESHOLD', 5, { min: 1 }),
+        resetTimeoutMs: int('BREAKER_RESET_TIMEOUT_MS', 30000, { min: 1000 }),
+    },
+    anonymousPool: {
+        size: int('ANONYMOUS_POOL_SIZE', 1, { min: 1, max: 32 }),
+        strategy: oneOf('ANONYMOUS_POOL_STRATEGY', ['round-robin', 'lru'], 'round-robin'),
+        benchMs: int('ANONYMOUS_POOL_BENCH_MS', 900000),
+        staggerMs: int('ANONYMOUS_POOL_STAGGER_MS', 10000),
+    },
+    providers: {
+        order: list('TOKEN_PROVIDERS', ['browser'], { values: ['browser', 'http', 'static'], unique: true, minLength: 1 }),
+        browserTimeoutMs: int('BROWSER_PROVIDER_TIMEOUT_MS', 60000, { min: 1000 }),
+        httpUrl: optionalText('HTTP_PROVIDER_URL', { check: checkUrl }),
+        httpHeaders: record('HTTP_PROVIDER_HEADERS', { secret: true }),
+        httpTimeoutMs: int('HTTP_PROVIDER_TIMEOUT_MS', 10000, { min: 100 }),
+        staticTokenFile: optionalText('STATIC_TOKEN_FILE'),
+        staticTimeoutMs: int('STATIC_PROVIDER_TIMEOUT_MS', 1000, { min: 100 }),
+    },
+    browser: {
+        path: optionalText('BROWSER_PATH'),
+        headless: bool('HEADLESS', true),
+        fetchTimeoutMs: int('BROWSER_FETCH_TIMEOUT_MS', 15000, { min: 1000 }),
+        contextPoolSize: int('BROWSER_CONTEXT_POOL_SIZE', 2, { min: 1, max: 32 }),
+        contextWaitTimeoutMs: int('BROWSER_CONTEXT_WAIT_TIMEOUT_MS', 10000),
+        spotifyOrigin: text('SPOTIFY_ORIGIN', 'https://open.spotify.com/', { check: checkUrl }),
+        tokenUrlPattern: text('SPOTIFY_TOKEN_URL_PATTERN', '/api/token', { check: checkRegExp }),
+        fingerprintFile: optionalText('BROWSER_FINGERPRINT_FILE'),
+        engine: optionalText('BROWSER_ENGINE', { check: checkOneOf(['chromium', 'firefox', 'webkit']) }),
+        userAgent: optionalText('BROWSER_USER_AGENT'),
+        locale: optionalText('BROWSER_LOCALE', { check: checkLocale }),
+        timezone: optionalText('BROWSER_TIMEZONE', { check: checkTimeZone }),
+        recycle: {
+            maxFetches: int('BROWSER_RECYCLE_MAX_FETCHES', 0),
+            maxAgeMs: int('BROWSER_RECYCLE_MAX_AGE_MS', 0),
+            maxRssMb: int('BROWSER_RECYCLE_MAX_RSS_MB', 0),
+            drainTimeoutMs: int('BROWSER_RECYCLE_DRAIN_TIMEOUT_MS', 30000),
+            watchdogIntervalMs: int('BROWSER_WATCHDOG_INTERVAL_MS', 30000, { min: 1000 }),
+            cron: list('BROWSER_RECYCLE_CRON', [], { separator: ';', check: checkCronPattern }),
+            cronTimezone: optionalText('BROWSER_RECYCLE_CRON_TIMEZONE', { check: checkTimeZone }),
+        },
+    },
+    proxies: {
+        urls: list('PROXIES', [], { secret: true }),
+        file: optionalText('PROXIES_FILE'),
+        strategy: oneOf('PROXY_STRATEGY', ['round-robin', 'sticky', 'failover'], 'round-robin'),
+        failureThreshold: int('PROXY_FAILURE_THRESHOLD', 3, { min: 1 }),
+        unhealthyCooldownMs: int('PROXY_UNHEALTHY_COOLDOWN_MS', 300000),
+    },
+    store: {
+        backend: oneOf('TOKEN_STORE', ['memory', 'file', 'redis'], 'memory'),
+        file: text('TOKEN_STORE_FILE', './data/tokens.json'),
+        redisUrl: text('REDIS_URL', 'redis://localhost:6379', { secret: true, check: checkUrl }),
+        prefix: text('TOKEN_STORE_PREFIX', 'spotokn:'),
+        key: optionalText('TOKEN_STORE_KEY', { secret: true }),
+    },
+    vault: {
+        key: optionalText('VAULT_KEY', { secret: true }),
+        file: text('VAULT_FILE', './data/vault.json'),
+    },
+    stream: {
+        heartbeatMs: int('STREAM_HEARTBEAT_MS', 15000, { min: 1000 }),
+    },
+    webhooks: {
+        url: optionalText('WEBHOOK_URL', { secret: true, check: checkUrl }),
+        events: list('WEBHOOK_EVENTS', ['*']),
+        secret: optionalText('WEBHOOK_SECRET', { secret: true }),
+        file: optionalText('WEBHOOKS_FILE'),
+        maxAttempts: int('WEBHOOK_MAX_ATTEMPTS', 5, { min: 1 }),
+        timeoutMs: int('WEBHOOK_TIMEOUT_MS', 5000, { min: 100 }),
+        retryBaseDelayMs: int('WEBHOOK_RETRY_BASE_DELAY_MS', 1000),
+        retryMaxDelayMs: int('WEBHOOK_RETRY_MAX_DELAY_MS', 60000),
+        queueSize: int('WEBHOOK_QUEUE_SIZE', 1000, { min: 1 }),
+    },
+};
@@ -0,0 +1,202 @@
+import { Cron } from 'croner';
+
+/**
+ * One configurable value: where it comes from in the environment, its default,
+ * and how a raw value (env string or config file JSON) is turned into a typed one
+ * `parse` throws an Error describing what was expected
+ */
+export class Setting<T> {
+    constructor(
+        public readonly env: string,
+        public readonly defaultValue: T,
+        public readonly parse: (raw: unknown) => T,
+        public readonly secret = false,
+    ) { }
+}
+
+interface Range {
+    min?: number;
+    max?: number;
+}
+
+interface TextOptions {
+    secret?: boolean;
+    /** Returns a problem description, or null when the value is fine */
+    check?: (value: string) => string | null;
+}
+
+function toNumber(raw: unknown): number {
+    if (typeof raw === 'number') return raw;
+    if (typeof raw === 'string' && raw.trim() !== '') return Number(raw);
+    return NaN;
+}
+
+function describeRange(kind: string, min: number, max: number): string {
+    if (max === Number.MAX_SAFE_INTEGER) return `${kind} >= ${min}`;
+    return `${kind} between ${min} and ${max}`;
+}
+
+export function int(env: string, defaultValue: number, { min = 0, max = Number.MAX_SAFE_INTEGER }: Range = {}): Setting<number> {
+    return new Setting(env, defaultValue, raw => {
+        const value = toNumber(raw);
+        if (!Number.isInteger(value) || value < min || value > max) {
+            throw new Error(`expected an ${describeRange('integer', min, max)}, got ${JSON.stringify(raw)}`);
+        }
+        return value;
+    });
+}
+
+export function num(env: string, defaultValue: number, { min = 0, max = Number.MAX_SAFE_INTEGER }: Range = {}): Setting<number> {
+    return new Setting(env, defaultValue, raw => {
+        const value = toNumber(raw);
+        if (!Number.isFinite(value) || value < min || value > max) {
+            throw new Error(`expected a ${describeRange('number', min, max)}, got ${JSON.stringify(raw)}`);
+        }
+        return value;
+    });
+}
+
+export function bool(env: string, defaultValue: boolean): Setting<boolean> {
+    return new Setting(env, defaultValue, raw => {
+        if (typeof raw === 'boolean') return raw;
+        const value = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+        if (['true', '1', 'yes'].includes(value)) return true;
+        if (['false', '0', 'no'].includes(value)) return false;
+        throw new Error(`expected true or false, got ${JSON.stringify(raw)}`);
+    });
+}
+
+function parseText(raw: unknown, { secret, check }: TextOptions): string {
+    if (typeof raw !== 'string') throw new Error(`expected a string, got ${secret ? 'a secret value' : JSON.stringify(raw)}`);
+    const problem = check?.(raw);
+    if (problem) throw new Error(problem);
+    return raw;
+}
+
+export function text(env: string, defaultValue: string, { secret, check }: TextOptions = {}): Setting<string> {
+    return new Setting(env, defaultValue, raw => parseText(raw, { secret, check }), secret);
+}
+
+export function optionalText(env: string, { secret, check }: TextOptions = {}): Setting<string | undefined> {
+    return new Setting<string | undefined>(env, undefined, raw => parseText(raw, { secret, check }), secret);
+}
+
+export function oneOf<const T extends string>(env: string, values: readonly T[], defaultValue: T): Setting<T> {
+    return new Setting(env, defaultValue, raw => {
+        const value = typeof raw === 'string' ? raw.trim().toLowerCase() : raw;
+        if (!values.includes(value as T)) {
+            throw new Error(`expected one of ${values.join(', ')}, got ${JSON.stringify(raw)}`);
+        }
+        return value as T;
+    });
+}
+
+interface ListOptions<T extends string> {
+    /** Separator inside an env value, config files use JSON arrays */
+    separator?: string;
+    values?: readonly T[];
+    unique?: boolean;
+    minLength?: number;
+    secret?: boolean;
+    /** Returns a problem description for one item, or null when it is fine */
+    check?: (value: string) => string | null;
+}
+
+export function list<const T extends string = string>(
+    env: string,
+    defaultValue: T[],
+    { separator = ',', values, unique = false, minLength = 0, secret, check }: ListOptions<T> = {},
+): Setting<T[]> {
+    return new Setting(env, defaultValue, raw => {
+        const items = typeof raw === 'string'
+            ? raw.split(separator).map(item => item.trim()).filter(Boolean)
+            : raw;
+
+        if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) {
+            throw new Error(`expected a list of strings, got ${secret ? 'a secret value' : JSON.stringify(raw)}`);
+        }
+        if (items.length < minLength) {
+            throw new Error(`expected at least ${minLength} item${minLength === 1 ? '' : 's'}`);
+        }
+        if (values) {
+            const invalid = items.filter(item => !values.includes(item as T));
+            if (invalid.length > 0) throw new Error(`unsupported ${invalid.join(', ')} - expected ${values.join(', ')}`);
+        }
+        const problem = check && items.map(check).find(Boolean);
+        if (problem) throw new Error(problem);
+        if (unique && new Set(items).size !== items.length) {
+            throw new Error('lists an item more than once');
+        }
+        return items as T[];
+    }, secret);
+}
+
+/**
+ * String map, a JSON object in env values
+ */
+export function record(env: string, { secret }: { secret?: boolean } = {}): Setting<Record<string, string>> {
+    return new Setting(env, {}, raw => {
+        let value = raw;
+        if (typeof raw === 'string') {
+            try {
+                value = JSON.parse(raw);
+            } catch {
+                throw new Error('expected a JSON object');
+            }
+        }
+
+        if (!value || typeof value !== 'object' || Array.isArray(value) || Object.values(value).some(item => typeof item !== 'string')) {
+            throw new Error('expected an object of string values');
+        }
+        return value as Record<string, string>;
+    }, secret);
+}
+
+export function checkUrl(value: string): string | null {
+    try {
+        new URL(value);
+        return null;
+    } catch {
+        return 'expected an absolute URL';
+    }
+}
+
+export function checkRegExp(value: string): string | null {
+    try {
+        new RegExp(value);
+        return null;
+    } catch (error) {
+        return `invalid regular expression: ${error instanceof Error ? error.message : error}`;
+    }
+}
+
+export function checkTimeZone(value: string): string | null {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return null;
+    } catch {
+        return `"${value}" is not a valid IANA time zone`;
+    }
+}
+
+export function checkCronPattern(value: string): string | null {
+    try {
+        new Cron(value);
+        return null;
+    } catch (error) {
+        return `"${value}" is not a valid cron pattern - ${(error as Error).message.replace(/^CronPattern: /, '')}`;
+    }
+}
+
+export function checkLocale(value: string): string | null {
+    try {
+        Intl.getCanonicalLocales(value);
+        return null;
+    } catch {
+        return `"${value}" is not a valid BCP 47 tag`;
+    }
+}
+
+export function checkOneOf(values: readonly string[]): (value: string) => string | null {
+    return value => values.includes(value) ? null : `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`;
+}
@@ -0,0 +1,123 @@
+import type { Spotify } from '../services/spotify';
+import type { ApiClient, Cookie } from '../types/types';
+import { audit, logs } from '../utils/logger';
+import { ConfigValidationError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { errorResponse } from '../utils/response';
+
+export class AdminController {
+    constructor(private readonly tokenService: Spotify) { }
+
+    public listTokens(actor: ApiClient) {
+        this.audit(actor, 'tokens.list');
+        return { success: true, ...this.tokenService.listTokens(), timestamp: Date.now() };
+    }
+
+    public async invalidateAnonymous(actor: ApiClient) {
+        const invalidated = await this.tokenService.invalidateAnonymousToken();
+        this.audit(actor, 'tokens.invalidate', { target: 'anonymous', invalidated });
+        return { success: true, invalidated: invalidated ? 1 : 0, timestamp: Date.now() };
+    }
+
+    public async invalidateAccount(actor: ApiClient, account: string, setStatus: (status: number) => void) {
+        const invalidated = await this.tokenService.invalidateAccount(account);
+        this.audit(actor, 'tokens.invalidate', { target: `account:${account.slice(0, 12)}`, invalidated });
+
+        if (invalidated === 0) {
+            setStatus(404);
+            return errorResponse('No cached token for that account');
+        }
+        return { success: true, invalidated, timestamp: Date.now() };
+    }
+
+    public listAccounts(actor: ApiClient) {
+        this.audit(actor, 'accounts.list');
+        return { success: true, accounts: this.tokenService.listVaultAccounts(), timestamp: Date.now() };
+    }
+
+    public saveAccount(actor: ApiClient, name: string, cookies: Cookie[], setStatus: (status: number) => void) {
+        try {
+            const account = this.tokenService.saveVaultAccount(name, cookies);
+            this.audit(actor, 'accounts.save', { account: name, outcome: 'success' });
+            return { success: true, account, timestamp: Date.now() };
+        } catch (error) {
+            if (error instanceof ForbiddenError) throw error;
+
+            this.audit(actor, 'accounts.save', { account: name, outcome: 'failure' });
+            setStatus(400);
+            return errorResponse('Invalid account', { details: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    public async deleteAccount(actor: ApiClient, name: string) {
+        try {
+            await this.tokenService.deleteVaultAccount(name);
+        } catch (error) {
+            this.audit(actor, 'accounts.delete', { account: name, outcome: 'failure' });
+            throw error;
+        }
+        this.audit(actor, 'accounts.delete', { account: name, outcome: 'success' });
+        return { success: true, deleted: name, timestamp: Date.now() };
+    }
+
+    public async refresh(actor: ApiClient, setStatus: (status: number) => void) {
+        const token = await this.tokenService.refreshAnonymousNow();
+        this.audit(actor, 'tokens.refresh', { outcome: token ? 'success' : 'failure' });
+
+        if (!token) {
+            setStatus(503);
+            return errorResponse('Anonymous token refresh failed');
+        }
+        return {
+            success: true,
+            clientId: token.clientId,
+            expiresAt: token.accessTokenExpirationTimestampMs,
+            provider: token.provider ?? null,
+            timestamp: Date.now(),
+        };
+    }
+
+    public async restartBrowser(actor: ApiClient, setStatus: (status: number) => void) {
+        try {
+            await this.tokenService.restartBrowser();
+            this.audit(actor, 'browser.restart', { outcome: 'success' });
+            return { success: true, timestamp: Date.now() };
+        } catch (error) {
+            if (error instanceof NotFoundError) throw error;
+
+            this.audit(actor, 'browser.restart', { outcome: 'failure' });
+            logs('error', 'Browser restart failed', error);
+            setStatus(503);
+            return errorResponse('Browser restart failed');
+        }
+    }
+
+    public async recycleBrowser(actor: ApiClient) {
+        await this.tokenService.recycleBrowser(`admin ${actor.name}`);
+        this.audit(actor, 'browser.recycle');
+        return { success: true, timestamp: Date.now() };
+    }
+
+    public reloadFingerprint(actor: ApiClient, setStatus: (status: number) => void) {
+        try {
+            const changed = this.tokenService.reloadBrowserFingerprint();
+            this.audit(actor, 'browser.fingerprint.reload', { outcome: 'success', changed });
+            return { success: true, changed, timestamp: Date.now() };
+        } catch (error) {
+            if (!(error instanceof ConfigValidationError)) throw error;
+
+            this.audit(actor, 'browser.fingerprint.reload', { outcome: 'failure' });
+            setStatus(400);
+            return errorResponse('Invalid browser fingerprint - keeping the current one', { details: error.errors.join('; ') });
+        }
+    }
+
+    public setRefreshLoop(actor: ApiClient, paused: boolean) {
+        this.tokenService.setProactiveRefreshPaused(paused);
+        this.audit(actor, paused ? 'refresh.pause' : 'refresh.resume');
+        return { success: true, proactiveRefreshPaused: paused, timestamp: Date.now() };
+    }
+
+    private audit(actor: ApiClient, action: string, details: Record<string, unknown> = {}): void {
+        audit(`admin.${action}`, { action, actor: actor.name, ...details });
+    }
+}
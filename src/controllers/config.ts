@@ -0,0 +1,17 @@
+import { describeConfig } from '../config';
+import { RESPONSE_VERSION } from '../types/schemas';
+
+export class ConfigController {
+    /**
+     * Effective configuration after merging defaults, the config file and env vars
+     * Secrets are redacted, `sources` lists every setting not left at its default
+     */
+    public handle() {
+        return {
+            success: true as const,
+            version: RESPONSE_VERSION,
+            ...describeConfig(),
+            timestamp: Date.now(),
+        };
+    }
+}
@@ -0,0 +1,76 @@
+import type { Spotify } from '../services/spotify';
+import { getConfig } from '../config';
+import { logs } from '../utils/logger';
+
+interface HealthCheck {
+    ok: boolean;
+    detail: string;
+}
+
+export class HealthController {
+    private readonly MAX_REFRESH_AGE = getConfig().health.maxRefreshAgeMs;
+    private readonly MAX_FAILURE_RATE = getConfig().health.maxFailureRate;
+    private readonly MIN_FAILURE_SAMPLES = getConfig().health.minFailureSamples;
+
+    constructor(private readonly tokenService: Spotify) { }
+
+    /**
+     * Liveness - the process is up and serving requests
+     */
+    public live() {
+        return {
+            status: 'alive',
+            timestamp: Date.now(),
+            uptime: process.uptime(),
+            version: `Bun v${Bun.version}`,
+            service: 'spotify-token-service'
+        };
+    }
+
+    /**
+     * Readiness - the service can actually hand out tokens
+     */
+    public ready(setStatus: (status: number) => void) {
+        const health = this.tokenService.getHealth();
+        const now = Date.now();
+        const refreshAge = health.lastAnonymousRefreshAt ? now - health.lastAnonymousRefreshAt : null;
+        const failureRate = health.recentFetches > 0 ? health.recentFailures / health.recentFetches : 0;
+
+        const checks: Record<string, HealthCheck> = {
+            browser: {
+                ok: health.browserConnected !== false,
+                detail: health.browserConnected === null
+                    ? 'Browser provider not enabled'
+                    : health.browserConnected ? 'Browser connected' : 'Browser is not connected',
+            },
+            anonymousToken: {
+                ok: health.anonymousTokenValid,
+                detail: health.anonymousTokenValid
+                    ? `Valid for another ${Math.round((health.anonymousTokenExpiry! - now) / 1000)}s`
+                    : 'No valid anonymous token held',
+            },
+            lastRefresh: {
+                ok: refreshAge !== null && refreshAge <= this.MAX_REFRESH_AGE,
+                detail: refreshAge === null
+                    ? 'No successful refresh yet'
+                    : `Last successful refresh ${Math.round(refreshAge / 1000)}s ago`,
+            },
+            failureRate: {
+                ok: health.recentFetches < this.MIN_FAILURE_SAMPLES || failureRate <= this.MAX_FAILURE_RATE,
+                detail: `${health.recentFailures}/${health.recentFetches} fetches failed in the last ${Math.round(health.failureWindowMs / 1000)}s (circuit ${health.circuitState})`,
+            },
+        };
+
+        const ready = Object.values(checks).every(check => check.ok);
+        if (!ready) {
+            setStatus(503);
+            logs('warn', 'Readiness check failed', Object.entries(checks).filter(([, check]) => !check.ok).map(([name]) => name));
+        }
+
+        return {
+            status: ready ? 'ready' : 'degraded',
+            timestamp: now,
+            checks,
+        };
+    }
+}
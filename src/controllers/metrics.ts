@@ -0,0 +1,16 @@
+import type { Spotify } from '../services/spotify';
+import { metrics, registry } from '../utils/metrics';
+
+export class MetricsController {
+    constructor(private readonly tokenService: Spotify) { }
+
+    /**
+     * Render all metrics in Prometheus text exposition format
+     */
+    public handle(): string {
+        const expiry = this.tokenService.getStatus().anonymousTokenExpiry;
+        metrics.anonymousTokenTtl.set({}, expiry ? Math.max(0, (expiry - Date.now()) / 1000) : 0);
+
+        return registry.render();
+    }
+}
@@ -0,0 +1,92 @@
+import type { TokenStreamHub, StreamScope } from '../services/stream';
+import type { ApiClient } from '../types/types';
+import { logs } from '../utils/logger';
+import { errorResponse } from '../utils/response';
+
+interface StreamSocket {
+    id: string;
+    send(data: string): unknown;
+    close(code?: number, reason?: string): void;
+}
+
+export class StreamController {
+    private readonly encoder = new TextEncoder();
+
+    constructor(private readonly hub: TokenStreamHub) { }
+
+    /**
+     * Server-Sent Events stream - `token` events on connect and on every rotation
+     */
+    public sse(client: ApiClient, scope: StreamScope, signal: AbortSignal, setStatus: (status: number) => void) {
+        let account: string | null;
+        try {
+            account = this.hub.resolveAccount(client, scope);
+        } catch (error) {
+            setStatus(400);
+            return errorResponse(error instanceof Error ? error.message : 'Invalid stream scope');
+        }
+
+        const id = crypto.randomUUID();
+        const body = new ReadableStream<Uint8Array>({
+            start: (controller) => {
+                const send = (event: string, data: unknown) => {
+                    controller.enqueue(this.encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+                };
+                const close = () => {
+                    try {
+                        controller.close();
+                    } catch {
+                        // Stream already closed by the client
+                    }
+                };
+
+                signal.addEventListener('abort', () => {
+                    this.hub.unsubscribe(id);
+                    close();
+                });
+
+                controller.enqueue(this.encoder.encode('retry: 5000\n\n'));
+                this.hub.subscribe({ id, account, send, close }, client).catch(error => {
+                    logs('error', 'Failed to start token stream', error);
+                });
+            },
+            cancel: () => this.hub.unsubscribe(id),
+        });
+
+        return new Response(body, {
+            headers: {
+                'content-type': 'text/event-stream',
+                'cache-control': 'no-cache',
+                'connection': 'keep-alive',
+                'x-accel-buffering': 'no',
+            },
+        });
+    }
+
+    /**
+     * WebSocket variant - JSON messages shaped `{ event, data }`
+     */
+    public open(ws: StreamSocket, client: ApiClient, scope: StreamScope): void {
+        let account: string | null;
+        try {
+            account = this.hub.resolveAccount(client, scope);
+        } catch (error) {
+            ws.close(4400, error instanceof Error ? error.message : 'Invalid stream scope');
+            return;
+        }
+
+        const send = (event: string, data: unknown) => {
+            ws.send(JSON.stringify({ event, data }));
+        };
+
+        const close = () => ws.close(1001, 'Server shutting down');
+
+        this.hub.subscribe({ id: ws.id, account, send, close }, client).catch(error => {
+            logs('error', 'Failed to start token stream', error);
+        });
+    }
+
+    public close(ws: StreamSocket): void {
+        this.hub.unsubscribe(ws.id);
+    }
+}
@@ -1,50 +1,117 @@
 import type { Spotify } from '../services/spotify';
 import type { Cookie } from '../types/types';
 import { logs } from '../utils/logger';
+import { CircuitOpenError, ForbiddenError, NotFoundError, TokenFetchError } from '../utils/errors';
+import { errorResponse, rawTokenResponse, tokenResponse } from '../utils/response';
+import { RESPONSE_VERSION } from '../types/schemas';
 
 export class TokenController {
     constructor(private readonly tokenService: Spotify) { }
 
+    /**
+     * Service internals (`?debug=true`)
+     */
+    public status() {
+        logs('info', 'Debug status requested');
+        return this.tokenService.getStatus();
+    }
+
     public async handle(
-        queryParams: { force?: string; debug?: string },
+        queryParams: { force?: string; raw?: string; account?: string },
         cookies: Record<string, string> | undefined,
         setStatus: (status: number) => void
     ) {
         try {
-            // Debug endpoint
-            if (queryParams.debug === 'true') {
-                logs('info', 'Debug status requested');
-                return this.tokenService.getStatus();
-            }
-
             // Extract cookies
             const cookieArray = this.extractCookies(cookies);
             const hasSpDc = cookieArray.some(c => c.name === 'sp_dc');
+            const force = this.isEnabled(queryParams.force);
 
-            if (hasSpDc) {
+            if (queryParams.account && hasSpDc) {
+                setStatus(400);
+                return errorResponse('Send either an sp_dc cookie or an account, not both');
+            }
+
+            if (queryParams.account) {
+                logs('info', `Processing request for vault account "${queryParams.account}"`);
+            } else if (hasSpDc) {
                 logs('info', 'Processing request with sp_dc cookie - will fetch authenticated token');
             } else {
                 logs('debug', 'Processing anonymous request - will use cached/proactively refreshed token');
             }
 
             // Get token
-            const token = await this.tokenService.getToken(cookieArray);
+            const result = queryParams.account
+                ? await this.tokenService.getAccountToken(queryParams.account, { force })
+                : await this.tokenService.getToken(cookieArray, { force });
 
-            if (!token) {
+            if (!result) {
                 setStatus(503);
                 logs('error', 'Token service returned null - service temporarily unavailable');
-                return this.createErrorResponse('Token service temporarily unavailable');
+                return errorResponse('Token service temporarily unavailable');
             }
 
             // Log success
-            logs('info', `Returned ${token.isAnonymous ? 'anonymous' : 'authenticated'} token successfully`);
-            return token;
+            logs('info', `Returned ${result.token.isAnonymous ? 'anonymous' : 'authenticated'} token successfully (${result.source})`);
+            return this.isEnabled(queryParams.raw) ? rawTokenResponse(result) : tokenResponse(result);
 
         } catch (error) {
+            if (error instanceof NotFoundError || error instanceof ForbiddenError) {
+                throw error;
+            }
+
+            if (error instanceof TokenFetchError && error.reason === 'invalid_cookie') {
+                setStatus(401);
+                return errorResponse('sp_dc cookie was rejected by Spotify');
+            }
+
+            if (error instanceof CircuitOpenError) {
+                setStatus(503);
+                return errorResponse('Token service temporarily unavailable', {
+                    details: 'circuit_open',
+                    retryAfter: Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000)),
+                });
+            }
+
+            if (error instanceof TokenFetchError) {
+                setStatus(503);
+                logs('error', `Token fetch failed (${error.reason})`);
+                return errorResponse('Token service temporarily unavailable', { details: error.reason });
+            }
+
             logs('error', 'Token controller error', error);
             setStatus(500);
-            return this.createErrorResponse('Internal server error');
+            return errorResponse('Internal server error');
+        }
+    }
+
+    /**
+     * Client report that a served token was rate limited by Spotify
+     */
+    public feedback(body: { accessToken: string; reason: 'rate_limited' }, setStatus: (status: number) => void) {
+        const result = this.tokenService.reportRateLimited(body.accessToken);
+
+        if (!result) {
+            setStatus(404);
+            return errorResponse('Token is not currently served');
         }
+
+        logs('info', `Token reported ${body.reason}${result.slot !== null ? ` (pool slot ${result.slot})` : ''}`);
+        return { success: true, reason: body.reason, slot: result.slot, timestamp: Date.now() };
+    }
+
+    /**
+     * Age, lifetime and last validation of a token this service served
+     */
+    public async introspect(body: { accessToken: string; validate?: boolean }, setStatus: (status: number) => void) {
+        const introspection = await this.tokenService.introspect(body.accessToken, body.validate === true);
+
+        if (!introspection) {
+            setStatus(404);
+            return errorResponse('Token was not served by this service');
+        }
+
+        return { success: true as const, version: RESPONSE_VERSION, ...introspection, timestamp: Date.now() };
     }
 
     private extractCookies(cookies?: Record<string, string>): Cookie[] {
@@ -56,11 +123,7 @@ export class TokenController {
         }));
     }
 
-    private createErrorResponse(error: string) {
-        return {
-            success: false,
-            error,
-            timestamp: Date.now()
-        };
+    private isEnabled(flag?: string): boolean {
+        return flag === 'true' || flag === '1';
     }
 }
\ No newline at end of file
@@ -0,0 +1,158 @@
+import type { Server } from "bun";
+import { logs } from "../utils/logger";
+
+/**
+ * Local stand-in for open.spotify.com
+ * Serves a minimal page that requests a fake token endpoint, so the whole
+ * token flow can run offline:
+ *   SPOTIFY_ORIGIN=http://localhost:4010/ bun run src/app.ts
+ * `/__standin/probe` doubles as a TOKEN_VALIDATION_URL that answers 401 for revoked tokens
+ */
+
+export type StandinMode = "success" | "error" | "malformed" | "slow" | "hang";
+
+const STANDIN_MODES: StandinMode[] = ["success", "error", "malformed", "slow", "hang"];
+
+export interface StandinOptions {
+    port?: number;
+    mode?: StandinMode;
+    slowDelayMs?: number;
+}
+
+export interface Standin {
+    url: string;
+    setMode(mode: StandinMode): void;
+    readonly mode: StandinMode;
+    readonly tokenRequests: number;
+    /** Make the probe reject a token (all issued tokens when omitted), returns how many were revoked */
+    revoke(accessToken?: string): number;
+    stop(): Promise<void>;
+}
+
+const PAGE = `<!doctype html>
+<html>
+  <head><title>Spotify stand-in</title></head>
+  <body>
+    <script>
+      fetch('/api/token?reason=init&productType=web-player', { credentials: 'include' }).catch(() => {});
+    </script>
+  </body>
+</html>`;
+
+function isStandinMode(value: unknown): value is StandinMode {
+    return typeof value === "string" && STANDIN_MODES.includes(value as StandinMode);
+}
+
+function createToken(cookieHeader: string | null) {
+    const isAnonymous = !/(?:^|;\s*)sp_dc=/.test(cookieHeader ?? "");
+    return {
+        clientId: "d8a5ed958d274c2e8ee717e6a4b0971d",
+        accessToken: `standin-${isAnonymous ? "anon" : "auth"}-${crypto.randomUUID()}`,
+        accessTokenExpirationTimestampMs: Date.now() + 60 * 60 * 1000,
+        isAnonymous,
+        _notes: "Served by the local stand-in",
+    };
+}
+
+export function startStandin(options: StandinOptions = {}): Standin {
+    let mode: StandinMode = options.mode ?? "success";
+    let tokenRequests = 0;
+    const issued = new Set<string>();
+    const revoked = new Set<string>();
+    const slowDelayMs = options.slowDelayMs ?? 5000;
+
+    const server: Server<undefined> = Bun.serve({
+        port: options.port ?? 0,
+        idleTimeout: 0,
+        fetch: async (request) => {
+            const url = new URL(request.url);
+
+            if (url.pathname === "/__standin/mode") {
+                const requested = url.searchParams.get("set");
+                if (requested !== null) {
+                    if (!isStandinMode(requested)) {
+                        return Response.json({ error: `Unknown mode, expected one of ${STANDIN_MODES.join(", ")}` }, { status: 400 });
+                    }
+                    mode = requested;
+                    logs("info", `Stand-in mode set to ${mode}`);
+                }
+                return Response.json({ mode, tokenRequests });
+            }
+
+            if (url.pathname === "/__standin/revoke") {
+                return Response.json({ revoked: revoke(url.searchParams.get("token") ?? undefined) });
+            }
+
+            if (url.pathname === "/__standin/probe") {
+                const accessToken = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+                if (!issued.has(accessToken) || revoked.has(accessToken)) {
+                    return Response.json({ error: { status: 401, message: "Invalid access token" } }, { status: 401 });
+                }
+                return Response.json({ ok: true });
+            }
+
+            if (url.pathname === "/api/token") {
+                tokenRequests++;
+                const token = createToken(request.headers.get("cookie"));
+                issued.add(token.accessToken);
+
+                switch (mode) {
+                    case "success":
+                        return Response.json(token);
+                    case "error":
+                        return Response.json({ error: "Service unavailable" }, { status: 503 });
+                    case "malformed":
+                        return new Response("{\"accessToken\": ", { headers: { "content-type": "application/json" } });
+                    case "slow":
+                        await Bun.sleep(slowDelayMs);
+                        return Response.json(token);
+                    case "hang":
+                        return new Promise<Response>(() => { });
+                }
+            }
+
+            if (url.pathname === "/") {
+                return new Response(PAGE, { headers: { "content-type": "text/html; charset=utf-8" } });
+            }
+
+            return new Response("Not found", { status: 404 });
+        },
+    });
+
+    function revoke(accessToken?: string): number {
+        const targets = accessToken ? [accessToken].filter(token => issued.has(token)) : [...issued];
+        const before = revoked.size;
+        targets.forEach(token => revoked.add(token));
+        if (revoked.size > before) logs("info", `Stand-in revoked ${revoked.size - before} token(s)`);
+        return revoked.size - before;
+    }
+
+    return {
+        url: `http://localhost:${server.port}/`,
+        setMode(next: StandinMode) {
+            mode = next;
+        },
+        get mode() {
+            return mode;
+        },
+        get tokenRequests() {
+            return tokenRequests;
+        },
+        revoke,
+        async stop() {
+            await server.stop(true);
+        },
+    };
+}
+
+if (import.meta.main) {
+    const initialMode = process.env.STANDIN_MODE;
+    const standin = startStandin({
+        port: parseInt(process.env.STANDIN_PORT || "4010", 10),
+        mode: isStandinMode(initialMode) ? initialMode : "success",
+        slowDelayMs: parseInt(process.env.STANDIN_SLOW_DELAY_MS || "5000", 10),
+    });
+
+    logs("info", `🧪 Spotify stand-in listening on ${standin.url} (mode: ${standin.mode})`);
+    logs("info", `  • Switch behavior: curl "${standin.url}__standin/mode?set=error"`);
+}
@@ -0,0 +1,120 @@
+import { createHash } from 'node:crypto';
+import type { ApiClient, RateLimits } from '../types/types';
+import { getConfig } from '../config';
+import { readApiKeysFile, type ApiKeyConfig } from '../config/files';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors';
+import { logs } from '../utils/logger';
+
+// A limit of 0 disables the limiter for that tier
+const UNLIMITED: RateLimits = { anonymous: 0, authenticated: 0 };
+
+export class AuthMiddleware {
+    private readonly clients = new Map<string, ApiClient>();
+    private readonly adminClients = new Map<string, ApiClient>();
+    private readonly defaultLimits: RateLimits = {
+        anonymous: getConfig().rateLimit.anonymous,
+        authenticated: getConfig().rateLimit.authenticated,
+    };
+    // Callers without a key share the default budget per IP unless operators opt out
+    private readonly ipLimits: RateLimits = getConfig().rateLimit.perIp ? this.defaultLimits : UNLIMITED;
+
+    constructor() {
+        for (const config of this.loadKeys()) {
+            const id = this.hashKey(config.key);
+            this.clients.set(id, {
+                id,
+                name: config.name ?? `key-${this.clients.size + 1}`,
+                limits: { ...this.defaultLimits, ...config.limits },
+                authenticated: true,
+                admin: config.admin === true,
+                cookies: config.spDc ? [{ name: 'sp_dc', value: config.spDc }] : undefined,
+                accounts: config.accounts,
+            });
+        }
+
+        getConfig().auth.adminApiKeys.forEach((key, index) => {
+            const id = this.hashKey(key);
+            this.adminClients.set(id, {
+                id,
+                name: `admin-${index + 1}`,
+                limits: this.defaultLimits,
+                authenticated: true,
+                admin: true,
+            });
+        });
+        for (const client of this.clients.values()) {
+            if (client.admin) this.adminClients.set(client.id, client);
+        }
+
+        if (this.enabled) {
+            logs('info', `API key authentication enabled for ${this.clients.size} key(s)`);
+        }
+    }
+
+    public get enabled(): boolean {
+        return this.clients.size > 0;
+    }
+
+    /**
+     * Resolve the calling client from a bearer header or `api_key` query parameter
+     * Admin keys are accepted too; without configured keys every other caller is
+     * allowed, identified by IP and limited per IP (`RATE_LIMIT_PER_IP=false` turns that off)
+     */
+    public authenticate(authorization: string | undefined, queryKey: string | undefined, ip: string): ApiClient {
+        const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+        const key = bearer || queryKey;
+        const id = key ? this.hashKey(key) : null;
+
+        const client = id ? this.clients.get(id) ?? this.adminClients.get(id) : undefined;
+        if (client) return client;
+
+        if (!this.enabled) {
+            return { id: `ip:${ip}`, name: ip, limits: this.ipLimits, authenticated: false, admin: false };
+        }
+        throw new UnauthorizedError();
+    }
+
+    /**
+     * Admin routes always require an admin key, even when regular API keys are disabled
+     */
+    public authenticateAdmin(authorization: string | undefined): ApiClient {
+        if (this.adminClients.size === 0) {
+            throw new ForbiddenError('Admin API is disabled - configure ADMIN_API_KEYS');
+        }
+
+        const key = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+        if (!key) throw new UnauthorizedError();
+
+        const id = this.hashKey(key);
+        const client = this.adminClients.get(id);
+        if (client) return client;
+
+        if (this.clients.has(id)) throw new ForbiddenError('API key is not allowed to use the admin API');
+        throw new UnauthorizedError();
+    }
+
+    /**
+     * Vault accounts are only served to API keys that list them (admin keys may use any)
+     */
+    public authorizeAccount(client: ApiClient, account: string): void {
+        if (!client.authenticated) {
+            throw new ForbiddenError('Vault accounts require an API key');
+        }
+        if (!client.admin && !client.accounts?.includes('*') && !client.accounts?.includes(account)) {
+            throw new ForbiddenError(`API key is not allowed to use account "${account}"`);
+        }
+    }
+
+    private hashKey(key: string): string {
+        return createHash('sha256').update(key).digest('hex');
+    }
+
+    private loadKeys(): ApiKeyConfig[] {
+        const keys: ApiKeyConfig[] = getConfig().auth.apiKeys.map(key => ({ key }));
+
+        const keysFile = getConfig().auth.apiKeysFile;
+        if (keysFile) keys.push(...readApiKeysFile(keysFile));
+
+        return keys;
+    }
+}
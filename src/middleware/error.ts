@@ -1,35 +1,59 @@
+import { ValidationError } from 'elysia';
 import { logs } from '../utils/logger';
+import { ForbiddenError, NotFoundError, RateLimitError, UnauthorizedError } from '../utils/errors';
+import { errorResponse } from '../utils/response';
 
 export class ErrorMiddleware {
     static handle(code: string, error: unknown, setStatus: (status: number) => void) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+        if (error instanceof UnauthorizedError) {
+            logs('warn', 'Rejected request without a valid API key');
+            setStatus(401);
+            return errorResponse(errorMessage);
+        }
+
+        if (error instanceof ForbiddenError) {
+            logs('warn', `Rejected request - ${errorMessage}`);
+            setStatus(403);
+            return errorResponse(errorMessage);
+        }
+
+        if (error instanceof NotFoundError) {
+            setStatus(404);
+            return errorResponse(errorMessage);
+        }
+
+        if (error instanceof RateLimitError) {
+            logs('warn', errorMessage);
+            setStatus(429);
+            return errorResponse('Rate limit exceeded', { retryAfter: error.retryAfterSeconds });
+        }
+
         logs('error', `Global error handler - ${code}`, errorMessage);
 
         switch (code) {
             case 'NOT_FOUND':
                 setStatus(404);
-                return {
-                    success: false,
-                    error: 'Endpoint not found',
-                    timestamp: Date.now()
-                };
+                return errorResponse('Endpoint not found');
 
             case 'VALIDATION':
                 setStatus(400);
-                return {
-                    success: false,
-                    error: 'Request validation failed',
-                    details: errorMessage,
-                    timestamp: Date.now()
-                };
+                return errorResponse('Request validation failed', {
+                    details: error instanceof ValidationError
+                        ? ErrorMiddleware.describeValidationError(error)
+                        : errorMessage
+                });
 
             default:
                 setStatus(500);
-                return {
-                    success: false,
-                    error: 'Internal server error',
-                    timestamp: Date.now()
-                };
+                return errorResponse('Internal server error');
         }
     }
-}
\ No newline at end of file
+
+    private static describeValidationError(error: ValidationError): string {
+        const property = error.valueError?.path ? `${error.type} ${error.valueError.path}: ` : `${error.type}: `;
+        if (typeof error.customError === 'string') return property + error.customError;
+        return property + error.all.map(issue => issue.summary ?? issue.message).join('; ');
+    }
+}
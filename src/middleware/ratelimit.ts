@@ -0,0 +1,56 @@
+import type { ApiClient, RateLimitTier } from '../types/types';
+import { getConfig } from '../config';
+import { RateLimitError } from '../utils/errors';
+
+interface Window {
+    count: number;
+    resetAt: number;
+}
+
+/**
+ * Fixed-window limiter per client and tier
+ * Authenticated/forced fetches hit the browser and get their own, tighter budget
+ */
+export class RateLimitMiddleware {
+    private windows = new Map<string, Window>();
+    private readonly WINDOW_MS = getConfig().rateLimit.windowMs;
+
+    public consume(
+        client: ApiClient,
+        tier: RateLimitTier,
+        setHeader: (name: string, value: string) => void
+    ): void {
+        const limit = client.limits[tier];
+        if (limit <= 0) return;
+
+        const now = Date.now();
+        const key = `${client.id}:${tier}`;
+        let window = this.windows.get(key);
+
+        if (!window || window.resetAt <= now) {
+            this.prune(now);
+            window = { count: 0, resetAt: now + this.WINDOW_MS };
+            this.windows.set(key, window);
+        }
+
+        const resetSeconds = Math.max(1, Math.ceil((window.resetAt - now) / 1000));
+        setHeader('RateLimit-Limit', String(limit));
+        setHeader('RateLimit-Reset', String(resetSeconds));
+        setHeader('RateLimit-Policy', `${limit};w=${Math.round(this.WINDOW_MS / 1000)}`);
+
+        if (window.count >= limit) {
+            setHeader('RateLimit-Remaining', '0');
+            setHeader('Retry-After', String(resetSeconds));
+            throw new RateLimitError(resetSeconds);
+        }
+
+        window.count++;
+        setHeader('RateLimit-Remaining', String(limit - window.count));
+    }
+
+    private prune(now: number): void {
+        for (const [key, window] of this.windows) {
+            if (window.resetAt <= now) this.windows.delete(key);
+        }
+    }
+}
@@ -1,85 +1,326 @@
+import { EventEmitter } from "node:events";
 import playwright from "playwright";
 import type {
     Browser,
     LaunchOptions,
     BrowserContext,
+    Page,
     Response,
 } from "playwright";
-import type { SpotifyToken, Cookie } from "../types/types";
+import type { SpotifyToken, Cookie, ServiceEvent, TokenFetchOptions, TokenProvider } from "../types/types";
+import { getConfig } from "../config";
 import { logs } from "../utils/logger";
+import { TokenFetchError, fetchFailureReason } from "../utils/errors";
+import { metrics } from "../utils/metrics";
+import { processTreeRss } from "../utils/memory";
+import { ContextPool } from "./pool";
+import { ProxyRotator, type ProxyConfig } from "./proxy";
+import { CONTEXT_FINGERPRINT_KEYS, FingerprintConfig } from "./fingerprint";
 
-export class SpotifyBrowser {
+interface BrowserSession {
+    browser: Browser;
+    /** Direct contexts, used when no proxies are configured */
+    pool: ContextPool;
+    /** Contexts bound to a proxy, created on first use */
+    proxyPools: Map<string, ContextPool>;
+    /** One dedicated context per fetch session (and proxy), created on first use */
+    sessionPools: Map<string, ContextPool>;
+}
+
+export class SpotifyBrowser implements TokenProvider {
+    public readonly name = "browser";
+    public readonly supportsAccounts = true;
     private browser: Browser | undefined;
-    private context: BrowserContext | undefined;
+    private pool: ContextPool | undefined;
+    private proxyPools = new Map<string, ContextPool>();
+    private sessionPools = new Map<string, ContextPool>();
+    private launching: Promise<BrowserSession> | undefined;
+    private readonly proxies = new ProxyRotator();
+    private readonly fingerprint = new FingerprintConfig();
+    private relaunchPending = false;
+    private closed = false;
+    private recycling: Promise<void> | undefined;
+    private watchdogTimer: NodeJS.Timeout | null = null;
+    private launchedAt: number | null = null;
+    private fetchesSinceLaunch = 0;
+    private recycles = 0;
+    private lastRecycle: { reason: string; at: number } | null = null;
+    private readonly events = new EventEmitter();
 
-    private async launch(): Promise<{
-        browser: Browser;
-        context: BrowserContext;
-    }> {
-        if (!this.browser || !this.context) {
-            try {
-                const executablePath =
-                    process.env.BROWSER_PATH && process.env.BROWSER_PATH.trim() !== ""
-                        ? process.env.BROWSER_PATH
-                        : undefined;
-                const launchOptions: LaunchOptions = {
-                    headless: process.env.HEADLESS !== 'false',
-                    args: [
-                        "--disable-gpu",
-                        "--disable-dev-shm-usage",
-                        "--disable-setuid-sandbox",
-                        "--no-sandbox",
-                        "--no-zygote",
-                        "--disable-extensions",
-                        "--disable-background-timer-throttling",
-                        "--disable-backgrounding-occluded-windows",
-                        "--disable-renderer-backgrounding",
-                    ],
-                };
-                if (executablePath) launchOptions.executablePath = executablePath;
-
-                this.browser = await playwright.chromium.launch(launchOptions);
-                this.context = await this.browser.newContext({
-                    userAgent:
-                        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
-                });
+    private readonly settings = getConfig().browser;
+    private readonly POOL_SIZE = this.settings.contextPoolSize;
+    private readonly POOL_WAIT_TIMEOUT = this.settings.contextWaitTimeoutMs;
+    private readonly FETCH_TIMEOUT = this.settings.fetchTimeoutMs;
+    private readonly ORIGIN = new URL(this.settings.spotifyOrigin);
+    private readonly TOKEN_URL_PATTERN = new RegExp(this.settings.tokenUrlPattern);
+    private readonly RECYCLE_MAX_FETCHES = this.settings.recycle.maxFetches;
+    private readonly RECYCLE_MAX_AGE = this.settings.recycle.maxAgeMs;
+    private readonly RECYCLE_MAX_RSS_MB = this.settings.recycle.maxRssMb;
+    private readonly RECYCLE_DRAIN_TIMEOUT = this.settings.recycle.drainTimeoutMs;
+    private readonly WATCHDOG_INTERVAL = this.settings.recycle.watchdogIntervalMs;
+    // A fresh browser is never recycled again right away, even if memory stays high
+    private readonly RECYCLE_MIN_AGE = 60 * 1000;
 
-                const initPage = await this.context.newPage();
-                await initPage.goto("https://open.spotify.com/");
-                await initPage.close();
-            } catch (err) {
-                this.browser = undefined;
-                this.context = undefined;
-                logs("error", "Failed to launch browser or context", err);
-                throw err;
-            }
-        } else {
-            if (this.browser.isConnected() === false) {
-                logs("warn", "Browser is not connected, relaunching...");
-                this.browser = undefined;
-                this.context = undefined;
-                return this.launch();
+    constructor() {
+        if (this.RECYCLE_MAX_AGE > 0 || this.RECYCLE_MAX_RSS_MB > 0) {
+            this.watchdogTimer = setInterval(() => this.checkRecycleThresholds(), this.WATCHDOG_INTERVAL);
+            logs("info", "Browser recycling watchdog started");
+        }
+    }
+
+    private async launch(): Promise<BrowserSession> {
+        if (this.closed) {
+            throw new TokenFetchError("Browser provider is shut down", "unavailable");
+        }
+
+        if (this.browser && this.pool) {
+            if (this.browser.isConnected()) {
+                return { browser: this.browser, pool: this.pool, proxyPools: this.proxyPools, sessionPools: this.sessionPools };
             }
+            logs("warn", "Browser is not connected, relaunching...");
+            await this.reset();
+            this.relaunchPending = true;
+        }
+
+        if (!this.launching) {
+            const reason = this.relaunchPending ? "relaunch" : "initial";
+            metrics.browserLaunches.inc({ reason });
+            this.relaunchPending = false;
+            this.launching = this.startBrowser(reason).finally(() => {
+                this.launching = undefined;
+            });
+        }
+        return this.launching;
+    }
+
+    private async startBrowser(reason: "initial" | "relaunch" | "recycle"): Promise<BrowserSession> {
+        let browser: Browser | undefined;
+
+        try {
+            const { engine, launchArgs } = this.fingerprint.current;
+            const executablePath = this.settings.path?.trim() || undefined;
+            const launchOptions: LaunchOptions = {
+                headless: this.settings.headless,
+                // Chromium switches are meaningless (or fatal) for the other engines
+                args: engine === "chromium" ? launchArgs : [],
+            };
+            if (executablePath) launchOptions.executablePath = executablePath;
+
+            const launched = await playwright[engine].launch(launchOptions);
+            browser = launched;
+            const pool = this.createPool(launched);
+            const proxyPools = new Map<string, ContextPool>();
+            const sessionPools = new Map<string, ContextPool>();
+
+            // With proxies configured the host IP is never used, not even for warm-up
+            const warmProxy = this.proxies.select("warmup");
+            const warmPool = warmProxy ? this.proxyPool({ browser: launched, pool, proxyPools, sessionPools }, warmProxy) : pool;
+            const context = await warmPool.acquire();
             try {
-                this.context.pages();
-            } catch {
-                logs("warn", "Context is closed, relaunching...");
-                this.browser = undefined;
-                this.context = undefined;
-                return this.launch();
+                const initPage = await context.newPage();
+                await initPage.goto(this.ORIGIN.href);
+                await initPage.close();
+            } finally {
+                await warmPool.release(context);
             }
+
+            this.browser = launched;
+            this.pool = pool;
+            this.proxyPools = proxyPools;
+            this.sessionPools = sessionPools;
+            this.launchedAt = Date.now();
+            this.fetchesSinceLaunch = 0;
+            launched.on("disconnected", () => {
+                // Intentional closes clear this.browser first
+                if (this.browser !== launched) return;
+                logs("error", "Browser disconnected unexpectedly");
+                this.emit("browser.crashed", {});
+            });
+
+            logs("info", `Browser launched (${engine}) with a pool of ${this.POOL_SIZE} contexts`);
+            if (reason === "relaunch") this.emit("browser.relaunched", {});
+            return { browser: launched, pool, proxyPools, sessionPools };
+        } catch (err) {
+            await browser?.close().catch(() => undefined);
+            logs("error", "Failed to launch browser or context", err);
+            throw new TokenFetchError(`Failed to launch browser: ${err instanceof Error ? err.message : err}`, "launch_failure");
+        }
+    }
+
+    private async reset(): Promise<void> {
+        const browser = this.browser;
+        const pools = [this.pool, ...this.proxyPools.values(), ...this.sessionPools.values()];
+        this.browser = undefined;
+        this.pool = undefined;
+        this.proxyPools = new Map();
+        this.sessionPools = new Map();
+        this.launchedAt = null;
+
+        await Promise.all(pools.map((pool) => pool?.close()));
+        await browser?.close().catch(() => undefined);
+    }
+
+    private createPool(browser: Browser, proxy?: ProxyConfig, size = this.POOL_SIZE): ContextPool {
+        return new ContextPool(
+            () => {
+                const { locale, timezone, viewport } = this.fingerprint.current;
+                return browser.newContext({
+                    userAgent: this.fingerprint.nextUserAgent(),
+                    locale,
+                    timezoneId: timezone,
+                    viewport,
+                    proxy,
+                });
+            },
+            size,
+            this.POOL_WAIT_TIMEOUT,
+        );
+    }
+
+    private proxyPool(session: BrowserSession, proxy: { id: string; config: ProxyConfig }): ContextPool {
+        let pool = session.proxyPools.get(proxy.id);
+        if (!pool) {
+            pool = this.createPool(session.browser, proxy.config);
+            session.proxyPools.set(proxy.id, pool);
         }
-        return { browser: this.browser, context: this.context };
+        return pool;
+    }
+
+    /**
+     * Sessions get a context of their own, so their fetches never share a context
+     * (or its user agent and storage) with other sessions or the shared pool
+     */
+    private sessionPool(session: BrowserSession, name: string, proxy: { id: string; config: ProxyConfig } | null): ContextPool {
+        const key = proxy ? `${name}@${proxy.id}` : name;
+        let pool = session.sessionPools.get(key);
+        if (!pool) {
+            pool = this.createPool(session.browser, proxy?.config, 1);
+            session.sessionPools.set(key, pool);
+        }
+        return pool;
     }
 
     public async getToken(
         cookies?: Cookie[],
+        options?: TokenFetchOptions,
     ): Promise<SpotifyToken> {
-        const { context } = await this.launch();
+        try {
+            return await this.fetchWithPool(cookies, options?.session);
+        } finally {
+            this.fetchesSinceLaunch++;
+            if (this.RECYCLE_MAX_FETCHES > 0) this.checkRecycleThresholds();
+        }
+    }
+
+    /**
+     * Replace the browser without dropping requests: a warm replacement is
+     * launched first, new fetches move to it, and the old browser is closed
+     * once its in-flight fetches have drained
+     */
+    public recycle(reason: string): Promise<void> {
+        if (this.closed) return Promise.resolve();
+        if (!this.recycling) {
+            this.recycling = this.replaceBrowser(reason).finally(() => {
+                this.recycling = undefined;
+            });
+        }
+        return this.recycling;
+    }
+
+    private async replaceBrowser(reason: string): Promise<void> {
+        await this.launching?.catch(() => undefined);
+
+        const browser = this.browser;
+        const pool = this.pool;
+        const otherPools = [...this.proxyPools.values(), ...this.sessionPools.values()];
+        if (!browser || !pool || !browser.isConnected()) {
+            logs("info", `Skipping browser recycle (${reason}) - no running browser`);
+            return;
+        }
+
+        logs("info", `Recycling browser (${reason}) - launching replacement`);
+        metrics.browserLaunches.inc({ reason: "recycle" });
+
+        try {
+            await this.startBrowser("recycle");
+        } catch (error) {
+            logs("error", "Replacement browser failed to launch - keeping the current one", error instanceof Error ? error.message : error);
+            return;
+        }
+
+        const pools = [pool, ...otherPools];
+        const drained = await Promise.all(pools.map((oldPool) => oldPool.drain(this.RECYCLE_DRAIN_TIMEOUT)));
+        if (drained.includes(false)) {
+            logs("warn", `In-flight fetches did not drain within ${this.RECYCLE_DRAIN_TIMEOUT}ms - closing old browser anyway`);
+        }
+        await Promise.all(pools.map((oldPool) => oldPool.close()));
+        await browser.close().catch(() => undefined);
+
+        this.recycles++;
+        this.lastRecycle = { reason, at: Date.now() };
+        logs("info", `Browser recycled (${reason})`);
+        this.emit("browser.recycled", { reason });
+    }
+
+    private checkRecycleThresholds(): void {
+        if (this.recycling || this.launching || !this.launchedAt) return;
+
+        const age = Date.now() - this.launchedAt;
+        if (age < this.RECYCLE_MIN_AGE) return;
+
+        if (this.RECYCLE_MAX_FETCHES > 0 && this.fetchesSinceLaunch >= this.RECYCLE_MAX_FETCHES) {
+            void this.recycle(`${this.fetchesSinceLaunch} fetches`);
+        } else if (this.RECYCLE_MAX_AGE > 0 && age >= this.RECYCLE_MAX_AGE) {
+            void this.recycle(`age ${Math.round(age / 1000)}s`);
+        } else if (this.RECYCLE_MAX_RSS_MB > 0) {
+            const rssMb = Math.round(processTreeRss() / 1024 / 1024);
+            if (rssMb >= this.RECYCLE_MAX_RSS_MB) void this.recycle(`rss ${rssMb}MB`);
+        }
+    }
+
+    private async fetchWithPool(cookies?: Cookie[], sessionName?: string): Promise<SpotifyToken> {
+        const session = await this.launch();
+        const proxy = this.proxies.select(cookies?.find((c) => c.name === "sp_dc")?.value ?? "anonymous");
+        const pool = sessionName
+            ? this.sessionPool(session, sessionName, proxy)
+            : proxy ? this.proxyPool(session, proxy) : session.pool;
+
+        let context: BrowserContext;
+        try {
+            context = await pool.acquire();
+        } catch (error) {
+            throw new TokenFetchError(error instanceof Error ? error.message : String(error), "context_unavailable");
+        }
+
+        try {
+            const token = await this.fetchToken(context, cookies);
+            if (proxy) this.proxies.recordSuccess(proxy.id);
+            return token;
+        } catch (error) {
+            // Only failures a bad egress path causes count against the proxy
+            const reason = fetchFailureReason(error);
+            if (proxy && (reason === "timeout" || reason === "navigation_failure")) {
+                this.proxies.recordFailure(proxy.id, reason);
+            }
+            throw error;
+        } finally {
+            await pool.release(context);
+        }
+    }
 
+    private fetchToken(
+        context: BrowserContext,
+        cookies?: Cookie[],
+    ): Promise<SpotifyToken> {
         return new Promise<SpotifyToken>((resolve, reject) => {
             (async () => {
-                const page = await context.newPage();
+                let page: Page;
+                try {
+                    page = await context.newPage();
+                } catch (error) {
+                    logs("error", `Failed to open page: ${error}`);
+                    return reject(new TokenFetchError(`Failed to open page: ${error}`, "context_unavailable"));
+                }
                 let responseReceived = false;
 
                 try {
@@ -89,20 +330,17 @@ export class SpotifyBrowser {
                         const cookieObjects = cookies.map((cookie) => ({
                             name: cookie.name,
                             value: cookie.value,
-                            domain: ".spotify.com",
+                            domain: this.cookieDomain(),
                             path: "/",
                             httpOnly: false,
-                            secure: true,
+                            secure: this.ORIGIN.protocol === "https:",
                             sameSite: "Lax" as const,
                         }));
                         await context.addCookies(cookieObjects);
                         logs(
                             "info",
                             "Cookies set for request",
-                            cookieObjects.map((c) => ({
-                                name: c.name,
-                                value: `${c.value.slice(0, 20)}...`,
-                            })),
+                            cookieObjects.map((c) => c.name),
                         );
                     }
 
@@ -110,12 +348,12 @@ export class SpotifyBrowser {
                         if (!responseReceived) {
                             logs("error", "Token fetch timeout");
                             page.close();
-                            reject(new Error("Token fetch exceeded deadline"));
+                            reject(new TokenFetchError("Token fetch exceeded deadline", "timeout"));
                         }
-                    }, 15000);
+                    }, this.FETCH_TIMEOUT);
 
                     page.on("response", async (response: Response) => {
-                        if (!response.url().includes("/api/token")) return;
+                        if (!this.TOKEN_URL_PATTERN.test(response.url())) return;
 
                         responseReceived = true;
                         clearTimeout(timeout);
@@ -123,7 +361,7 @@ export class SpotifyBrowser {
                         try {
                             if (!response.ok()) {
                                 await page.close();
-                                return reject(new Error("Invalid response from Spotify"));
+                                return reject(new TokenFetchError(`Invalid response from Spotify (HTTP ${response.status()})`, "non_200", response.status()));
                             }
 
                             const responseBody = await response.text();
@@ -133,7 +371,7 @@ export class SpotifyBrowser {
                             } catch {
                                 await page.close();
                                 logs("error", "Failed to parse response JSON");
-                                return reject(new Error("Failed to parse response JSON"));
+                                return reject(new TokenFetchError("Failed to parse response JSON", "parse_error"));
                             }
 
                             if (
@@ -150,31 +388,17 @@ export class SpotifyBrowser {
                         } catch (error) {
                             await page.close();
                             logs("error", `Failed to process token response: ${error}`);
-                            reject(new Error(`Failed to process token response: ${error}`));
+                            reject(new TokenFetchError(`Failed to process token response: ${error}`, "parse_error"));
                         }
                     });
 
+                    const blockedTypes = new Set(this.fingerprint.current.blockedResourceTypes);
+                    const blockedPatterns = this.fingerprint.current.blockedUrlPatterns;
+
                     await page.route("**/*", (route) => {
                         const url = route.request().url();
                         const type = route.request().resourceType();
 
-                        const blockedTypes = new Set([
-                            "image",
-                            "stylesheet",
-                            "font",
-                            "media",
-                            "websocket",
-                            "other",
-                        ]);
-
-                        const blockedPatterns = [
-                            "google-analytics",
-                            "doubleclick.net",
-                            "googletagmanager.com",
-                            "https://open.spotifycdn.com/cdn/images/",
-                            "https://encore.scdn.co/fonts/",
-                        ];
-
                         const isBlockedUrl = (u: string) =>
                             blockedPatterns.some((pat) => u.includes(pat));
 
@@ -186,23 +410,80 @@ export class SpotifyBrowser {
                         route.continue();
                     });
 
-                    await page.goto("https://open.spotify.com/");
+                    await page.goto(this.ORIGIN.href);
                 } catch (error) {
                     if (!responseReceived) {
                         await page.close();
                         logs("error", `Navigation failed: ${error}`);
-                        reject(new Error(`Navigation failed: ${error}`));
+                        reject(new TokenFetchError(`Navigation failed: ${error}`, "navigation_failure"));
                     }
                 }
             })();
         });
     }
 
+    private cookieDomain(): string {
+        return this.ORIGIN.hostname.endsWith("spotify.com") ? ".spotify.com" : this.ORIGIN.hostname;
+    }
+
+    public onEvent(listener: (event: ServiceEvent) => void): () => void {
+        this.events.on("event", listener);
+        return () => this.events.off("event", listener);
+    }
+
+    private emit(type: "browser.crashed" | "browser.relaunched" | "browser.recycled", data: Record<string, unknown>): void {
+        this.events.emit("event", { type, timestamp: Date.now(), data } satisfies ServiceEvent);
+    }
+
+    /**
+     * Close the current browser and launch a fresh one
+     */
+    public async restart(): Promise<void> {
+        await this.recycling?.catch(() => undefined);
+        await this.launching?.catch(() => undefined);
+        await this.reset();
+        this.relaunchPending = true;
+        await this.launch();
+    }
+
+    /**
+     * Re-read the fingerprint; context-level changes are rolled out by recycling
+     * the browser, blocking rules apply to the next fetch
+     */
+    public reloadFingerprint(): string[] {
+        const changed = this.fingerprint.reload();
+        if (this.browser && changed.some((key) => CONTEXT_FINGERPRINT_KEYS.includes(key))) {
+            void this.recycle("fingerprint reload");
+        }
+        return changed;
+    }
+
+    /**
+     * Shut the browser down for good, later fetches fail as unavailable instead of relaunching it
+     */
     public async close(): Promise<void> {
-        if (this.browser) {
-            await this.browser.close();
-            this.browser = undefined;
-            this.context = undefined;
+        this.closed = true;
+        if (this.watchdogTimer) {
+            clearInterval(this.watchdogTimer);
+            this.watchdogTimer = null;
         }
+        await this.recycling?.catch(() => undefined);
+        await this.launching?.catch(() => undefined);
+        await this.reset();
+    }
+
+    public getStatus() {
+        return {
+            connected: this.browser?.isConnected() ?? false,
+            contexts: this.pool?.getStatus() ?? null,
+            sessionContexts: this.sessionPools.size,
+            proxies: this.proxies.enabled ? this.proxies.getStatus() : null,
+            fingerprint: this.fingerprint.getStatus(),
+            launchedAt: this.launchedAt,
+            fetchesSinceLaunch: this.fetchesSinceLaunch,
+            recycling: !!this.recycling,
+            recycles: this.recycles,
+            lastRecycle: this.lastRecycle,
+        };
     }
 }
\ No newline at end of file
@@ -0,0 +1,210 @@
+import { readFileSync } from "node:fs";
+import { getConfig } from "../config";
+import { ConfigValidationError } from "../utils/errors";
+import { logs } from "../utils/logger";
+
+export type BrowserEngine = "chromium" | "firefox" | "webkit";
+
+export interface BrowserFingerprint {
+    engine: BrowserEngine;
+    /** Rotated round-robin, one per new browser context */
+    userAgents: string[];
+    locale: string;
+    timezone: string;
+    viewport: { width: number; height: number };
+    /** Chromium only */
+    launchArgs: string[];
+    blockedResourceTypes: string[];
+    /** Requests whose URL contains any of these are aborted */
+    blockedUrlPatterns: string[];
+}
+
+const ENGINES: BrowserEngine[] = ["chromium", "firefox", "webkit"];
+
+const RESOURCE_TYPES = new Set([
+    "stylesheet", "image", "media", "font", "script", "texttrack", "xhr",
+    "fetch", "eventsource", "websocket", "manifest", "other",
+]);
+
+const DEFAULT_FINGERPRINT: BrowserFingerprint = {
+    engine: "chromium",
+    userAgents: [
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
+    ],
+    locale: "en-US",
+    timezone: "UTC",
+    viewport: { width: 1280, height: 720 },
+    launchArgs: [
+        "--disable-gpu",
+        "--disable-dev-shm-usage",
+        "--disable-setuid-sandbox",
+        "--no-sandbox",
+        "--no-zygote",
+        "--disable-extensions",
+        "--disable-background-timer-throttling",
+        "--disable-backgrounding-occluded-windows",
+        "--disable-renderer-backgrounding",
+    ],
+    blockedResourceTypes: ["image", "stylesheet", "font", "media", "websocket", "other"],
+    blockedUrlPatterns: [
+        "google-analytics",
+        "doubleclick.net",
+        "googletagmanager.com",
+        "https://open.spotifycdn.com/cdn/images/",
+        "https://encore.scdn.co/fonts/",
+    ],
+};
+
+/** Changing these needs new contexts (or a new browser), blocking rules apply immediately */
+export const CONTEXT_FINGERPRINT_KEYS: Array<keyof BrowserFingerprint> = [
+    "engine", "userAgents", "locale", "timezone", "viewport", "launchArgs",
+];
+
+/**
+ * Browser fingerprint from defaults, BROWSER_FINGERPRINT_FILE and the BROWSER_* settings
+ * Reloading re-reads the file and the current configuration; an invalid result keeps
+ * the current fingerprint
+ */
+export class FingerprintConfig {
+    private fingerprint: BrowserFingerprint;
+    private file: string | undefined;
+    private userAgentCursor = 0;
+    private loadedAt = Date.now();
+
+    constructor() {
+        this.file = getConfig().browser.fingerprintFile;
+        this.fingerprint = this.load(this.file);
+    }
+
+    public get current(): BrowserFingerprint {
+        return this.fingerprint;
+    }
+
+    public nextUserAgent(): string {
+        const userAgents = this.fingerprint.userAgents;
+        const userAgent = userAgents[this.userAgentCursor % userAgents.length]!;
+        this.userAgentCursor = (this.userAgentCursor + 1) % userAgents.length;
+        return userAgent;
+    }
+
+    /**
+     * Returns the keys that changed, throws ConfigValidationError and keeps
+     * the current fingerprint when the new one is invalid
+     */
+    public reload(): Array<keyof BrowserFingerprint> {
+        const file = getConfig().browser.fingerprintFile;
+        const next = this.load(file);
+        const changed = (Object.keys(next) as Array<keyof BrowserFingerprint>)
+            .filter((key) => JSON.stringify(next[key]) !== JSON.stringify(this.fingerprint[key]));
+
+        this.fingerprint = next;
+        this.file = file;
+        this.userAgentCursor = 0;
+        this.loadedAt = Date.now();
+        logs("info", changed.length > 0 ? `Browser fingerprint reloaded (changed: ${changed.join(", ")})` : "Browser fingerprint reloaded (unchanged)");
+        return changed;
+    }
+
+    public getStatus() {
+        return {
+            engine: this.fingerprint.engine,
+            userAgents: this.fingerprint.userAgents.length,
+            locale: this.fingerprint.locale,
+            timezone: this.fingerprint.timezone,
+            viewport: this.fingerprint.viewport,
+            blockedResourceTypes: this.fingerprint.blockedResourceTypes,
+            blockedUrlPatterns: this.fingerprint.blockedUrlPatterns.length,
+            source: this.file ?? "defaults",
+            loadedAt: this.loadedAt,
+        };
+    }
+
+    private load(file: string | undefined): BrowserFingerprint {
+        const input: Record<string, unknown> = { ...DEFAULT_FINGERPRINT };
+
+        if (file) {
+            try {
+                const parsed = JSON.parse(readFileSync(file, "utf8"));
+                if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+                    throw new Error("expected a JSON object");
+                }
+                Object.assign(input, parsed);
+            } catch (error) {
+                throw new ConfigValidationError(`browser fingerprint ${file}`, [error instanceof Error ? error.message : String(error)]);
+            }
+        }
+
+        const { engine, userAgent, locale, timezone } = getConfig().browser;
+        if (engine) input.engine = engine;
+        if (userAgent) input.userAgents = [userAgent];
+        if (locale) input.locale = locale;
+        if (timezone) input.timezone = timezone;
+
+        const errors = validateFingerprint(input);
+        if (errors.length > 0) throw new ConfigValidationError("browser fingerprint", errors);
+        return input as unknown as BrowserFingerprint;
+    }
+}
+
+function validateFingerprint(input: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    const known = new Set(Object.keys(DEFAULT_FINGERPRINT));
+
+    for (const key of Object.keys(input)) {
+        if (!known.has(key)) errors.push(`unknown key "${key}"`);
+    }
+
+    if (!ENGINES.includes(input.engine as BrowserEngine)) {
+        errors.push(`engine must be one of ${ENGINES.join(", ")}`);
+    }
+
+    if (!isStringList(input.userAgents) || input.userAgents.length === 0 || input.userAgents.some((ua) => ua.trim() === "")) {
+        errors.push("userAgents must be a non-empty list of non-empty strings");
+    }
+
+    try {
+        if (typeof input.locale !== "string") throw new Error();
+        Intl.getCanonicalLocales(input.locale);
+    } catch {
+        errors.push(`locale "${input.locale}" is not a valid BCP 47 tag`);
+    }
+
+    try {
+        if (typeof input.timezone !== "string") throw new Error();
+        new Intl.DateTimeFormat("en-US", { timeZone: input.timezone });
+    } catch {
+        errors.push(`timezone "${input.timezone}" is not a valid IANA time zone`);
+    }
+
+    const viewport = input.viewport as { width?: unknown; height?: unknown } | undefined;
+    if (!viewport || !isDimension(viewport.width) || !isDimension(viewport.height)) {
+        errors.push("viewport must be { width, height } with integers between 200 and 8000");
+    }
+
+    if (!isStringList(input.launchArgs)) {
+        errors.push("launchArgs must be a list of strings");
+    }
+
+    if (!isStringList(input.blockedResourceTypes)) {
+        errors.push("blockedResourceTypes must be a list of strings");
+    } else {
+        const invalid = input.blockedResourceTypes.filter((type) => !RESOURCE_TYPES.has(type));
+        if (invalid.length > 0) {
+            errors.push(`blockedResourceTypes contains unsupported types: ${invalid.join(", ")} (documents can never be blocked)`);
+        }
+    }
+
+    if (!isStringList(input.blockedUrlPatterns) || input.blockedUrlPatterns.some((pattern) => pattern === "")) {
+        errors.push("blockedUrlPatterns must be a list of non-empty strings");
+    }
+
+    return errors;
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isDimension(value: unknown): boolean {
+    return Number.isInteger(value) && (value as number) >= 200 && (value as number) <= 8000;
+}
@@ -0,0 +1,207 @@
+import type { BrowserContext } from "playwright";
+import { logs } from "../utils/logger";
+
+interface PendingLease {
+    resolve: (context: BrowserContext) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+    timedOut: boolean;
+}
+
+/**
+ * Fixed-size pool of isolated browser contexts
+ * Every token fetch leases its own context so cookies never leak between requests
+ */
+export class ContextPool {
+    private idle: BrowserContext[] = [];
+    private leased = new Set<BrowserContext>();
+    /** Released contexts whose health check is still running, they count against the size */
+    private returning = new Set<BrowserContext>();
+    private closedContexts = new WeakSet<BrowserContext>();
+    private waiters: PendingLease[] = [];
+    private drainListeners: Array<() => void> = [];
+    private creating = 0;
+    private closed = false;
+
+    constructor(
+        private readonly factory: () => Promise<BrowserContext>,
+        private readonly size: number,
+        private readonly waitTimeout: number,
+    ) { }
+
+    public async acquire(): Promise<BrowserContext> {
+        if (this.closed) throw new Error("Context pool is closed");
+
+        while (this.idle.length > 0) {
+            const context = this.idle.pop()!;
+            if (this.closedContexts.has(context)) continue;
+            this.leased.add(context);
+            return context;
+        }
+
+        if (this.total < this.size) {
+            const context = await this.create();
+            this.leased.add(context);
+            return context;
+        }
+
+        logs("debug", `All ${this.size} browser contexts leased - queueing request`);
+        return new Promise<BrowserContext>((resolve, reject) => {
+            const pending: PendingLease = {
+                resolve,
+                reject,
+                timedOut: false,
+                timer: setTimeout(() => {
+                    pending.timedOut = true;
+                    this.waiters = this.waiters.filter((w) => w !== pending);
+                    this.notifyDrained();
+                    reject(new Error(`Timed out after ${this.waitTimeout}ms waiting for a browser context`));
+                }, this.waitTimeout),
+            };
+            this.waiters.push(pending);
+        });
+    }
+
+    /**
+     * Return a leased context. Unhealthy contexts are closed and replaced
+     * for the next waiter instead of being handed out again.
+     */
+    public async release(context: BrowserContext): Promise<void> {
+        this.leased.delete(context);
+        this.returning.add(context);
+        const healthy = !this.closed && (await this.isHealthy(context));
+        this.returning.delete(context);
+
+        // close() already closed it while the health check ran
+        if (this.closed) {
+            await context.close().catch(() => undefined);
+            this.notifyDrained();
+            return;
+        }
+
+        if (healthy) {
+            const waiter = this.waiters.shift();
+            if (waiter) {
+                clearTimeout(waiter.timer);
+                this.leased.add(context);
+                waiter.resolve(context);
+            } else {
+                this.idle.push(context);
+            }
+            this.notifyDrained();
+            return;
+        }
+
+        logs("warn", "Discarding unhealthy browser context");
+        await context.close().catch(() => undefined);
+
+        if (this.waiters.length > 0) {
+            this.replaceForWaiter();
+        }
+        this.notifyDrained();
+    }
+
+    /**
+     * Resolves once no context is leased or awaited, false when the timeout hits first
+     */
+    public drain(timeoutMs: number): Promise<boolean> {
+        if (this.isDrained) return Promise.resolve(true);
+
+        return new Promise<boolean>((resolve) => {
+            const listener = () => {
+                clearTimeout(timer);
+                resolve(true);
+            };
+            const timer = setTimeout(() => {
+                this.drainListeners = this.drainListeners.filter((l) => l !== listener);
+                resolve(false);
+            }, timeoutMs);
+            this.drainListeners.push(listener);
+        });
+    }
+
+    public async close(): Promise<void> {
+        this.closed = true;
+        for (const listener of this.drainListeners.splice(0)) listener();
+
+        for (const waiter of this.waiters.splice(0)) {
+            clearTimeout(waiter.timer);
+            waiter.reject(new Error("Context pool is closed"));
+        }
+
+        const contexts = [...this.idle, ...this.leased, ...this.returning];
+        this.idle = [];
+        this.leased.clear();
+        this.returning.clear();
+        await Promise.all(contexts.map((context) => context.close().catch(() => undefined)));
+    }
+
+    public getStatus() {
+        return {
+            size: this.size,
+            idle: this.idle.length,
+            leased: this.leased.size,
+            waiting: this.waiters.length,
+        };
+    }
+
+    private get isDrained(): boolean {
+        return this.leased.size === 0 && this.returning.size === 0 && this.waiters.length === 0 && this.creating === 0;
+    }
+
+    private notifyDrained(): void {
+        if (!this.isDrained) return;
+        for (const listener of this.drainListeners.splice(0)) listener();
+    }
+
+    private get total(): number {
+        return this.idle.length + this.leased.size + this.returning.size + this.creating;
+    }
+
+    private async create(): Promise<BrowserContext> {
+        this.creating++;
+        try {
+            const context = await this.factory();
+            context.on("close", () => {
+                this.closedContexts.add(context);
+                this.idle = this.idle.filter((c) => c !== context);
+            });
+            return context;
+        } finally {
+            this.creating--;
+        }
+    }
+
+    private replaceForWaiter(): void {
+        const waiter = this.waiters.shift();
+        if (!waiter) return;
+
+        this.create()
+            .then((context) => {
+                clearTimeout(waiter.timer);
+                if (waiter.timedOut || this.closed) {
+                    void this.release(context);
+                    return;
+                }
+                this.leased.add(context);
+                waiter.resolve(context);
+            })
+            .catch((error) => {
+                clearTimeout(waiter.timer);
+                logs("error", "Failed to replace browser context", error);
+                waiter.reject(error instanceof Error ? error : new Error(String(error)));
+            });
+    }
+
+    private async isHealthy(context: BrowserContext): Promise<boolean> {
+        if (this.closedContexts.has(context)) return false;
+        if (context.browser()?.isConnected() === false) return false;
+
+        try {
+            await context.clearCookies();
+            return context.pages().length === 0;
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,124 @@
+import type { Cookie, SpotifyToken, TokenFetchOptions, TokenProvider, TokenProviderEntry } from '../../types/types';
+import { logs } from '../../utils/logger';
+import { metrics } from '../../utils/metrics';
+import { withDeadline } from '../../utils/singleflight';
+import { TokenFetchError, fetchFailureReason } from '../../utils/errors';
+
+interface ProviderStats {
+    successes: number;
+    failures: number;
+    lastSuccessAt: number | null;
+    lastFailureAt: number | null;
+    lastError: string | null;
+}
+
+/**
+ * Tries providers in order until one issues a token, each bounded by its own timeout
+ * A rejected sp_dc cookie ends the chain - another provider would be rejected too
+ */
+export class TokenProviderChain implements TokenProvider {
+    public readonly name = 'chain';
+    private readonly stats = new Map<string, ProviderStats>();
+
+    constructor(private readonly entries: TokenProviderEntry[]) {
+        if (entries.length === 0) {
+            throw new Error('At least one token provider is required');
+        }
+
+        for (const { provider } of entries) {
+            this.stats.set(provider.name, { successes: 0, failures: 0, lastSuccessAt: null, lastFailureAt: null, lastError: null });
+        }
+        logs('info', `Token providers: ${entries.map(({ provider }) => provider.name).join(' -> ')}`);
+    }
+
+    public get supportsAccounts(): boolean {
+        return this.entries.some(({ provider }) => provider.supportsAccounts);
+    }
+
+    /**
+     * First provider in the chain that is an instance of `type`
+     */
+    public find<T extends TokenProvider>(type: abstract new (...args: never[]) => T): T | null {
+        const entry = this.entries.find(({ provider }) => provider instanceof type);
+        return (entry?.provider as T | undefined) ?? null;
+    }
+
+    /**
+     * Token fetches and their latency are recorded here, whichever provider answers
+     */
+    public async getToken(cookies?: Cookie[], options?: TokenFetchOptions): Promise<SpotifyToken> {
+        const type = cookies?.some(cookie => cookie.name === 'sp_dc') ? 'authenticated' : 'anonymous';
+        const stopTimer = metrics.tokenFetchDuration.startTimer({ type });
+
+        try {
+            const token = await this.fetchFromChain(cookies, type === 'authenticated', options);
+            metrics.tokenFetches.inc({ type, outcome: 'success' });
+            stopTimer({ outcome: 'success' });
+            return token;
+        } catch (error) {
+            const outcome = fetchFailureReason(error);
+            metrics.tokenFetches.inc({ type, outcome });
+            stopTimer({ outcome });
+            throw error;
+        }
+    }
+
+    private async fetchFromChain(cookies: Cookie[] | undefined, authenticated: boolean, options?: TokenFetchOptions): Promise<SpotifyToken> {
+        const candidates = authenticated
+            ? this.entries.filter(({ provider }) => provider.supportsAccounts)
+            : this.entries;
+
+        if (candidates.length === 0) {
+            throw new TokenFetchError('No configured token provider can issue authenticated tokens', 'unavailable');
+        }
+
+        let firstError: unknown;
+        for (const [index, { provider, timeoutMs }] of candidates.entries()) {
+            const stats = this.stats.get(provider.name)!;
+
+            try {
+                const token = await withDeadline(provider.getToken(cookies, options), timeoutMs, () =>
+                    new TokenFetchError(`Token provider "${provider.name}" timed out after ${timeoutMs}ms`, 'timeout'));
+
+                stats.successes++;
+                stats.lastSuccessAt = Date.now();
+                metrics.providerFetches.inc({ provider: provider.name, outcome: 'success' });
+                return { ...token, provider: provider.name, fetchedAt: Date.now() };
+            } catch (error) {
+                const reason = fetchFailureReason(error);
+                stats.failures++;
+                stats.lastFailureAt = Date.now();
+                stats.lastError = error instanceof Error ? error.message : String(error);
+                metrics.providerFetches.inc({ provider: provider.name, outcome: reason });
+
+                if (reason === 'invalid_cookie') throw error;
+                firstError ??= error;
+
+                const next = candidates[index + 1];
+                if (next) {
+                    logs('warn', `Token provider "${provider.name}" failed (${reason}) - falling back to "${next.provider.name}"`);
+                }
+            }
+        }
+
+        // The primary provider's failure is the one worth reporting
+        throw firstError;
+    }
+
+    public async close(): Promise<void> {
+        for (const { provider } of this.entries) {
+            await provider.close().catch(error => {
+                logs('warn', `Failed to close token provider "${provider.name}"`, error instanceof Error ? error.message : error);
+            });
+        }
+    }
+
+    public getStatus() {
+        return this.entries.map(({ provider, timeoutMs }) => ({
+            provider: provider.name,
+            timeoutMs,
+            supportsAccounts: provider.supportsAccounts,
+            ...this.stats.get(provider.name)!,
+        }));
+    }
+}
@@ -0,0 +1,55 @@
+import type { Cookie, SpotifyToken, TokenProvider } from '../../types/types';
+import { TokenFetchError } from '../../utils/errors';
+import { parseToken } from './token';
+
+/**
+ * Fetches tokens straight from a token endpoint without a browser
+ * Cookies are forwarded as a Cookie header, the endpoint must answer with
+ * the Spotify token JSON ({ accessToken, accessTokenExpirationTimestampMs, clientId, isAnonymous })
+ */
+export class HttpTokenProvider implements TokenProvider {
+    public readonly name = 'http';
+    public readonly supportsAccounts = true;
+
+    constructor(
+        private readonly url: string,
+        private readonly headers: Record<string, string>,
+        private readonly timeoutMs: number,
+    ) { }
+
+    public async getToken(cookies?: Cookie[]): Promise<SpotifyToken> {
+        const headers: Record<string, string> = { accept: 'application/json', ...this.headers };
+        if (cookies && cookies.length > 0) {
+            headers.cookie = cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(this.url, { headers, signal: AbortSignal.timeout(this.timeoutMs) });
+        } catch (error) {
+            if (error instanceof Error && error.name === 'TimeoutError') {
+                throw new TokenFetchError(`Token endpoint did not answer within ${this.timeoutMs}ms`, 'timeout');
+            }
+            throw new TokenFetchError(`Token endpoint request failed: ${error instanceof Error ? error.message : error}`, 'navigation_failure');
+        }
+
+        if (!response.ok) {
+            throw new TokenFetchError(`Invalid response from token endpoint (HTTP ${response.status})`, 'non_200', response.status);
+        }
+
+        let body: unknown;
+        try {
+            body = await response.json();
+        } catch {
+            throw new TokenFetchError('Failed to parse token endpoint response JSON', 'parse_error');
+        }
+
+        const token = parseToken(body);
+        if (!token) {
+            throw new TokenFetchError('Token endpoint response is not a Spotify token', 'parse_error');
+        }
+        return token;
+    }
+
+    public async close(): Promise<void> { }
+}
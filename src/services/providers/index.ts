@@ -0,0 +1,30 @@
+import type { TokenProviderEntry } from '../../types/types';
+import { getConfig } from '../../config';
+import { SpotifyBrowser } from '../browser';
+import { TokenProviderChain } from './chain';
+import { HttpTokenProvider } from './http';
+import { ResilientTokenProvider } from './resilient';
+import { StaticTokenProvider } from './static';
+
+export { HttpTokenProvider, ResilientTokenProvider, StaticTokenProvider, TokenProviderChain };
+
+/**
+ * Build the providers listed in TOKEN_PROVIDERS (browser | http | static), in fallback order
+ */
+export function createTokenProviders(): TokenProviderEntry[] {
+    const settings = getConfig().providers;
+
+    return settings.order.map(name => {
+        switch (name) {
+            case 'http':
+                return {
+                    provider: new HttpTokenProvider(settings.httpUrl!, settings.httpHeaders, settings.httpTimeoutMs),
+                    timeoutMs: settings.httpTimeoutMs,
+                };
+            case 'static':
+                return { provider: new StaticTokenProvider(settings.staticTokenFile!), timeoutMs: settings.staticTimeoutMs };
+            case 'browser':
+                return { provider: new SpotifyBrowser(), timeoutMs: settings.browserTimeoutMs };
+        }
+    });
+}
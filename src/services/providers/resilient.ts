@@ -0,0 +1,60 @@
+import type { Cookie, SpotifyToken, TokenFetchOptions, TokenProvider } from '../../types/types';
+import { getConfig } from '../../config';
+import { CircuitBreaker } from '../../utils/breaker';
+import { TokenFetchError, isRetryableFetchError } from '../../utils/errors';
+import { logs } from '../../utils/logger';
+import { retry } from '../../utils/retry';
+
+/**
+ * Provider chain fetch with jittered exponential backoff behind the circuit breaker
+ * A rejected sp_dc comes back as an anonymous token and is never retried
+ * Shared by the token service and the CLI so both fetch with the same policy
+ */
+export class ResilientTokenProvider implements TokenProvider {
+    public readonly name = 'resilient';
+    public readonly breaker: CircuitBreaker;
+
+    private readonly settings = getConfig().retry;
+
+    constructor(private readonly provider: TokenProvider) {
+        const { failureThreshold, resetTimeoutMs } = getConfig().breaker;
+        this.breaker = new CircuitBreaker('token-providers', {
+            failureThreshold,
+            resetTimeoutMs,
+            isFailure: error => !(error instanceof TokenFetchError && error.reason === 'invalid_cookie'),
+        });
+    }
+
+    public get supportsAccounts(): boolean {
+        return this.provider.supportsAccounts;
+    }
+
+    public getToken(cookies?: Cookie[], options?: TokenFetchOptions): Promise<SpotifyToken> {
+        const expectAuthenticated = !!cookies?.some(cookie => cookie.name === 'sp_dc');
+        return this.breaker.execute(() => this.fetchWithRetry(cookies, expectAuthenticated, options));
+    }
+
+    public close(): Promise<void> {
+        return this.provider.close();
+    }
+
+    private fetchWithRetry(cookies: Cookie[] | undefined, expectAuthenticated: boolean, options?: TokenFetchOptions): Promise<SpotifyToken> {
+        const { attempts, baseDelayMs, maxDelayMs } = this.settings;
+
+        return retry(async () => {
+            const token = await this.provider.getToken(cookies, options);
+            if (expectAuthenticated && token.isAnonymous) {
+                throw new TokenFetchError('sp_dc cookie was rejected by Spotify', 'invalid_cookie');
+            }
+            return token;
+        }, {
+            attempts,
+            baseDelayMs,
+            maxDelayMs,
+            isRetryable: isRetryableFetchError,
+            onRetry: (error, attempt, delayMs) => {
+                logs('warn', `Token fetch attempt ${attempt}/${attempts} failed - retrying in ${delayMs}ms`, error instanceof Error ? error.message : error);
+            },
+        });
+    }
+}
@@ -0,0 +1,37 @@
+import { readFile } from 'node:fs/promises';
+import type { SpotifyToken, TokenProvider } from '../../types/types';
+import { TokenFetchError } from '../../utils/errors';
+import { logs } from '../../utils/logger';
+import { parseToken } from './token';
+
+/**
+ * Serves a pinned anonymous token from a JSON file, for when nothing else works
+ * The file is read on every fetch so the token can be replaced without a restart
+ */
+export class StaticTokenProvider implements TokenProvider {
+    public readonly name = 'static';
+    public readonly supportsAccounts = false;
+
+    constructor(private readonly path: string) { }
+
+    public async getToken(): Promise<SpotifyToken> {
+        let token: SpotifyToken | null;
+        try {
+            token = parseToken({ isAnonymous: true, ...JSON.parse(await readFile(this.path, 'utf8')) });
+        } catch (error) {
+            throw new TokenFetchError(`Failed to read pinned token from ${this.path}: ${error instanceof Error ? error.message : error}`, 'unavailable');
+        }
+
+        if (!token || !token.isAnonymous) {
+            throw new TokenFetchError(`${this.path} does not contain an anonymous Spotify token`, 'parse_error');
+        }
+        if (token.accessTokenExpirationTimestampMs <= Date.now()) {
+            throw new TokenFetchError('Pinned token has expired', 'unavailable');
+        }
+
+        logs('warn', 'Serving pinned token from the static provider');
+        return token;
+    }
+
+    public async close(): Promise<void> { }
+}
@@ -0,0 +1,20 @@
+import type { SpotifyToken } from '../../types/types';
+
+/**
+ * Pick the Spotify token fields out of untrusted JSON, null when any is missing
+ */
+export function parseToken(value: unknown): SpotifyToken | null {
+    if (!value || typeof value !== 'object') return null;
+
+    const { accessToken, accessTokenExpirationTimestampMs, clientId, isAnonymous } = value as Record<string, unknown>;
+    if (
+        typeof accessToken !== 'string' || accessToken === '' ||
+        typeof accessTokenExpirationTimestampMs !== 'number' ||
+        typeof clientId !== 'string' ||
+        typeof isAnonymous !== 'boolean'
+    ) {
+        return null;
+    }
+
+    return { accessToken, accessTokenExpirationTimestampMs, clientId, isAnonymous };
+}
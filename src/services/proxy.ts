@@ -0,0 +1,162 @@
+import { createHash } from "node:crypto";
+import { getConfig } from "../config";
+import { parseProxyUrl, readProxiesFile } from "../config/files";
+import { logs } from "../utils/logger";
+
+export type ProxyStrategy = "round-robin" | "sticky" | "failover";
+
+export interface ProxyConfig {
+    /** http://host:port, https://host:port, socks5://host:port */
+    server: string;
+    username?: string;
+    password?: string;
+    bypass?: string;
+}
+
+interface ProxyState {
+    id: string;
+    config: ProxyConfig;
+    consecutiveFailures: number;
+    unhealthyUntil: number;
+    successes: number;
+    failures: number;
+    lastFailure: string | null;
+}
+
+/**
+ * Outbound proxies for browser contexts
+ * A proxy is taken out of rotation after repeated timeouts or navigation
+ * failures and tried again once its cooldown has passed
+ */
+export class ProxyRotator {
+    private readonly proxies: ProxyState[];
+    private cursor = 0;
+
+    private readonly STRATEGY: ProxyStrategy = getConfig().proxies.strategy;
+    private readonly FAILURE_THRESHOLD = getConfig().proxies.failureThreshold;
+    private readonly UNHEALTHY_COOLDOWN = getConfig().proxies.unhealthyCooldownMs;
+
+    constructor() {
+        this.proxies = this.loadProxies().map((config, index) => ({
+            id: this.describe(config, index),
+            config,
+            consecutiveFailures: 0,
+            unhealthyUntil: 0,
+            successes: 0,
+            failures: 0,
+            lastFailure: null,
+        }));
+
+        if (this.enabled) {
+            logs("info", `Routing token fetches through ${this.proxies.length} proxies (${this.STRATEGY})`);
+        }
+    }
+
+    public get enabled(): boolean {
+        return this.proxies.length > 0;
+    }
+
+    /**
+     * Pick a proxy for a fetch, `stickyKey` identifies the account for the sticky strategy
+     * When every proxy is unhealthy the one recovering soonest is used rather than the host IP
+     */
+    public select(stickyKey: string): { id: string; config: ProxyConfig } | null {
+        if (!this.enabled) return null;
+
+        const now = Date.now();
+        const healthy = this.proxies.filter((proxy) => proxy.unhealthyUntil <= now);
+        if (healthy.length === 0) {
+            const soonest = this.proxies.reduce((best, proxy) => proxy.unhealthyUntil < best.unhealthyUntil ? proxy : best);
+            logs("warn", `All proxies unhealthy - using ${soonest.id}`);
+            return soonest;
+        }
+
+        switch (this.STRATEGY) {
+            case "failover":
+                return healthy[0]!;
+            case "sticky": {
+                // Walk from the account's home proxy to the next healthy one, so
+                // accounts only move when their own proxy is down
+                const home = createHash("sha256").update(stickyKey).digest().readUInt32BE(0) % this.proxies.length;
+                for (let offset = 0; offset < this.proxies.length; offset++) {
+                    const proxy = this.proxies[(home + offset) % this.proxies.length]!;
+                    if (proxy.unhealthyUntil <= now) return proxy;
+                }
+                return healthy[0]!;
+            }
+            default: {
+                const proxy = healthy[this.cursor % healthy.length]!;
+                this.cursor = (this.cursor + 1) % Number.MAX_SAFE_INTEGER;
+                return proxy;
+            }
+        }
+    }
+
+    public recordSuccess(id: string): void {
+        const proxy = this.find(id);
+        if (!proxy) return;
+
+        if (proxy.unhealthyUntil > 0) {
+            logs("info", `Proxy ${id} recovered`);
+        }
+        proxy.successes++;
+        proxy.consecutiveFailures = 0;
+        proxy.unhealthyUntil = 0;
+    }
+
+    public recordFailure(id: string, reason: string): void {
+        const proxy = this.find(id);
+        if (!proxy) return;
+
+        proxy.failures++;
+        proxy.consecutiveFailures++;
+        proxy.lastFailure = reason;
+
+        if (proxy.consecutiveFailures >= this.FAILURE_THRESHOLD) {
+            proxy.unhealthyUntil = Date.now() + this.UNHEALTHY_COOLDOWN;
+            logs("warn", `Proxy ${id} marked unhealthy after ${proxy.consecutiveFailures} consecutive failures (${reason})`);
+        }
+    }
+
+    public getStatus() {
+        const now = Date.now();
+        return {
+            strategy: this.STRATEGY,
+            proxies: this.proxies.map((proxy) => ({
+                proxy: proxy.id,
+                healthy: proxy.unhealthyUntil <= now,
+                unhealthyUntil: proxy.unhealthyUntil > now ? proxy.unhealthyUntil : null,
+                consecutiveFailures: proxy.consecutiveFailures,
+                successes: proxy.successes,
+                failures: proxy.failures,
+                lastFailure: proxy.lastFailure,
+            })),
+        };
+    }
+
+    private find(id: string): ProxyState | undefined {
+        return this.proxies.find((proxy) => proxy.id === id);
+    }
+
+    /**
+     * Credentials never appear in ids, logs or status; the position in the list
+     * keeps entries for the same endpoint with different credentials apart
+     */
+    private describe(config: ProxyConfig, index: number): string {
+        try {
+            const url = new URL(config.server);
+            return `${url.protocol}//${url.host}#${index + 1}`;
+        } catch {
+            return `${config.server}#${index + 1}`;
+        }
+    }
+
+    private loadProxies(): ProxyConfig[] {
+        const proxies: ProxyConfig[] = getConfig().proxies.urls.map((entry, index) => parseProxyUrl(entry, index));
+
+        const file = getConfig().proxies.file;
+        if (file) proxies.push(...readProxiesFile(file));
+
+        return proxies;
+    }
+}
@@ -1,21 +1,106 @@
+import { createHash } from 'node:crypto';
+import { EventEmitter } from 'node:events';
 import { SpotifyBrowser } from './browser';
-import type { SpotifyToken, Cookie } from '../types/types';
+import { ResilientTokenProvider, TokenProviderChain, createTokenProviders } from './providers';
+import { getConfig } from '../config';
+import { createTokenStore } from './store';
+import { AccountVault } from './vault';
+import { AnonymousTokenPool } from './tokenpool';
+import { TokenValidator, type TokenValidation } from './validator';
+import type { SpotifyToken, Cookie, TokenResult, TokenRequestOptions, TokenStore, TokenRotationEvent, ServiceEvent, ServiceEventType, TokenProviderEntry, TokenFetchOptions } from '../types/types';
 import { logs } from '../utils/logger';
+import { LRUCache } from '../utils/lru';
+import { metrics } from '../utils/metrics';
+import { SingleFlight, withDeadline, type Flight } from '../utils/singleflight';
+import { CircuitOpenError, NotFoundError, TokenFetchError } from '../utils/errors';
+
+interface ForcedRefreshState {
+    startedAt: number;
+    inFlight: Promise<SpotifyToken> | null;
+}
+
+export interface TokenIntrospection {
+    clientId: string;
+    isAnonymous: boolean;
+    provider: string | null;
+    fetchedAt: number | null;
+    ageMs: number | null;
+    expiresAt: number;
+    remainingMs: number;
+    expired: boolean;
+    validation: TokenValidation | null;
+}
+
+interface AccountTokenEntry {
+    token: SpotifyToken;
+    fetchedAt: number;
+    lastUsedAt: number;
+}
+
+interface WatchedAccount {
+    cookies: Cookie[];
+    watchers: number;
+    /** Spotify rejected the cookie, a new cookie is a new account key */
+    rejected: boolean;
+}
+
+export interface SpotifyOptions {
+    /** Token providers in fallback order, built from TOKEN_PROVIDERS when omitted */
+    providers?: TokenProviderEntry[];
+}
+
+const ANONYMOUS_STORE_KEY = 'anonymous';
+const ANONYMOUS_REFRESH_LOCK = 'anonymous-refresh';
+// Tokens served recently enough to be introspected, whether or not they are still cached
+const ISSUED_TOKEN_HISTORY = 1000;
 
 export class Spotify {
-    private browser: SpotifyBrowser;
+    private providers: TokenProviderChain;
+    /** Set when the browser provider is part of the chain */
+    private browser: SpotifyBrowser | null;
+    private store: TokenStore;
+    private vault: AccountVault;
+    private anonymousPool: AnonymousTokenPool | null = null;
+    private fetcher: ResilientTokenProvider;
+    private readonly validator = new TokenValidator();
+    private readonly issuedTokens = new LRUCache<string, SpotifyToken>(ISSUED_TOKEN_HISTORY);
+    private readonly events = new EventEmitter();
     private anonymousToken: SpotifyToken | null = null;
-    private authenticatedToken: SpotifyToken | null = null;
     private proactiveRefreshTimer: NodeJS.Timeout | null = null;
-    private isRefreshing = false;
+    private proactiveRefreshPaused = false;
+    private lastAnonymousRefreshAt: number | null = null;
+    private consecutiveRefreshFailures = 0;
+    private fetchOutcomes: Array<{ at: number; ok: boolean }> = [];
+    private forcedRefreshes = new Map<string, ForcedRefreshState>();
+    private accountTokens: LRUCache<string, AccountTokenEntry>;
+    private readonly flights = new SingleFlight<SpotifyToken>();
+    private rejectedVaultAccounts = new Map<string, number>();
+    private watchedAccounts = new Map<string, WatchedAccount>();
 
-    private readonly PROACTIVE_REFRESH_BUFFER = 5 * 60 * 1000;
-    private readonly CHECK_INTERVAL = 60 * 1000; 
+    private readonly config = getConfig();
+    private readonly PROACTIVE_REFRESH_BUFFER = this.config.tokens.refreshBufferMs;
+    private readonly CHECK_INTERVAL = this.config.tokens.refreshCheckIntervalMs;
+    private readonly FORCE_REFRESH_COOLDOWN = this.config.tokens.forceRefreshCooldownMs;
+    private readonly ACCOUNT_CACHE_SIZE = this.config.tokens.accountCacheSize;
+    private readonly ACCOUNT_EXPIRY_BUFFER = this.config.tokens.accountExpiryBufferMs;
+    private readonly REFRESH_LOCK_TTL = this.config.tokens.refreshLockTtlMs;
+    private readonly REFRESH_WAIT_TIMEOUT = this.config.tokens.refreshWaitTimeoutMs;
+    private readonly FAILURE_WINDOW = this.config.health.failureWindowMs;
+    private readonly REFRESH_FAILURE_ALERT_THRESHOLD = this.config.tokens.refreshFailureAlertThreshold;
 
-    constructor() {
-        this.browser = new SpotifyBrowser();
+    constructor(options: SpotifyOptions = {}) {
+        // The vault can still refuse a wrong VAULT_KEY, before any browser is launched
+        this.vault = new AccountVault();
+        this.providers = new TokenProviderChain(options.providers ?? createTokenProviders());
+        this.browser = this.providers.find(SpotifyBrowser);
+        this.browser?.onEvent(event => this.events.emit('service', event));
+        this.store = createTokenStore();
+        this.fetcher = new ResilientTokenProvider(this.providers);
+        this.accountTokens = new LRUCache(this.ACCOUNT_CACHE_SIZE);
+        this.anonymousPool = this.createAnonymousPool();
         this.initializeProactiveRefresh();
-        this.getAnonymousToken();
+        // Failures are logged by the refresh itself, the next request retries
+        this.getAnonymousToken().catch(() => undefined);
         logs('info', 'Spotify Token Service initialized with proactive refresh enabled');
     }
 
@@ -23,10 +108,40 @@ export class Spotify {
      * Get token based on cookie presence
      * - With sp_dc cookie: Returns authenticated token (fetched on-demand)
      * - Without sp_dc cookie: Returns anonymous token (proactively refreshed)
+     * - With force: Skips the cache, limited to one refresh per cooldown window
+     * - With TOKEN_VALIDATION_URL: Cached tokens the probe rejects are evicted and replaced
+     * Fetch failures reject with the error of the shared refresh
      */
-    public async getToken(cookies?: Cookie[]): Promise<SpotifyToken | null> {
+    public async getToken(cookies?: Cookie[], options: TokenRequestOptions = {}): Promise<TokenResult | null> {
+        let result = await this.resolveToken(cookies, options);
+
+        if (result?.source === 'cache' && this.validator.enabled) {
+            const validation = await this.validator.validate(result.token);
+            if (validation.valid === false) {
+                await this.evictRevokedToken(result.token, cookies);
+                result = await this.resolveToken(cookies);
+            }
+        }
+
+        if (result) this.issuedTokens.set(result.token.accessToken, result.token);
+        return result;
+    }
+
+    private async resolveToken(cookies?: Cookie[], options: TokenRequestOptions = {}): Promise<TokenResult | null> {
         const hasSpDcCookie = this.hasSpDcCookie(cookies);
 
+        if (options.force) {
+            const key = hasSpDcCookie ? this.accountKey(cookies!) : 'anonymous';
+
+            if (this.canForceRefresh(key)) {
+                return this.forceRefresh(key, hasSpDcCookie
+                    ? () => this.startAccountFetch(key, cookies!)
+                    : () => this.startAnonymousRefresh(true));
+            }
+
+            logs('info', 'Forced refresh cooldown active - serving regular token');
+        }
+
         if (hasSpDcCookie) {
             return this.getAuthenticatedToken(cookies!);
         } else {
@@ -35,63 +150,253 @@ export class Spotify {
     }
 
     /**
-     * Handle authenticated token requests (with sp_dc cookie)
-     * Always fetch fresh to ensure latest user permissions
+     * Drop a token the validation probe rejected from every cache, so the next
+     * lookup fetches a replacement
      */
-    private async getAuthenticatedToken(cookies: Cookie[]): Promise<SpotifyToken | null> {
-        logs('info', 'Fetching fresh authenticated token for sp_dc user');
+    private async evictRevokedToken(token: SpotifyToken, cookies?: Cookie[]): Promise<void> {
+        const type = token.isAnonymous ? 'anonymous' : 'authenticated';
+        logs('warn', `Cached ${type} token was rejected by the validation probe - evicting it`);
 
-        try {
-            const token = await this.browser.getToken(cookies);
+        if (this.hasSpDcCookie(cookies)) {
+            const key = this.accountKey(cookies!);
+            if (this.accountTokens.peek(key)?.token.accessToken === token.accessToken) {
+                await this.invalidateAccount(key);
+            }
+        } else {
+            this.anonymousPool?.evict(token.accessToken);
+            if (this.anonymousToken?.accessToken === token.accessToken) {
+                await this.invalidateAnonymousToken();
+                this.startAnonymousRefresh(true).promise.catch(() => undefined);
+            }
+        }
 
-            if (!token.isAnonymous) {
-                this.authenticatedToken = token;
-                logs('info', 'Successfully obtained authenticated token');
+        this.emitServiceEvent('token.revoked', {
+            type,
+            clientId: token.clientId,
+            expiresAt: token.accessTokenExpirationTimestampMs,
+            provider: token.provider ?? null,
+        });
+    }
+
+    /**
+     * Age, remaining lifetime and last validation of a token this service served,
+     * null for tokens it does not know; `validate` probes it now
+     */
+    public async introspect(accessToken: string, validate = false): Promise<TokenIntrospection | null> {
+        const token = this.issuedTokens.peek(accessToken);
+        if (!token) return null;
+
+        const validation = validate && this.validator.enabled
+            ? await this.validator.validate(token, true)
+            : this.validator.lastResult(accessToken);
+        const now = Date.now();
+
+        return {
+            clientId: token.clientId,
+            isAnonymous: token.isAnonymous,
+            provider: token.provider ?? null,
+            fetchedAt: token.fetchedAt ?? null,
+            ageMs: token.fetchedAt ? now - token.fetchedAt : null,
+            expiresAt: token.accessTokenExpirationTimestampMs,
+            remainingMs: Math.max(0, token.accessTokenExpirationTimestampMs - now),
+            expired: !this.isTokenValid(token),
+            validation,
+        };
+    }
+
+    /**
+     * Get a token for a named vault account, the cookies never leave the server
+     */
+    public getAccountToken(name: string, options: TokenRequestOptions = {}): Promise<TokenResult | null> {
+        return this.getToken(this.vault.get(name).cookies, options);
+    }
+
+    /**
+     * Forced refresh with cooldown protection
+     * A refresh already in flight for the same token is shared instead of duplicated
+     */
+    private async forceRefresh(key: string, start: () => Flight<SpotifyToken>): Promise<TokenResult> {
+        this.pruneForcedRefreshes();
+
+        const flight = start();
+        if (flight.shared) {
+            logs('info', 'Refresh already in flight - sharing it with forced request');
+            return { token: await this.join(flight), source: 'shared' };
+        }
+
+        logs('info', `Forcing ${key === 'anonymous' ? 'anonymous' : 'authenticated'} token refresh`);
+        this.forcedRefreshes.set(key, { startedAt: Date.now(), inFlight: flight.promise });
+
+        try {
+            return { token: await flight.promise, source: 'forced' };
+        } finally {
+            const current = this.forcedRefreshes.get(key);
+            if (current?.inFlight === flight.promise) {
+                current.inFlight = null;
             }
+        }
+    }
 
-            return token;
-        } catch (error) {
-            logs('error', 'Authenticated token fetch failed', error instanceof Error ? error.message : error);
-            return null;
+    /**
+     * Handle authenticated token requests (with sp_dc cookie)
+     * Reuse the account's cached token while it is comfortably valid,
+     * concurrent requests for the same account share a single fetch
+     */
+    private async getAuthenticatedToken(cookies: Cookie[]): Promise<TokenResult | null> {
+        const key = this.accountKey(cookies);
+        const cached = this.accountTokens.get(key);
+
+        if (cached && this.isTokenValid(cached.token, this.ACCOUNT_EXPIRY_BUFFER)) {
+            cached.lastUsedAt = Date.now();
+            metrics.cacheLookups.inc({ type: 'authenticated', result: 'hit' });
+            logs('debug', 'Returning cached authenticated token');
+            return { token: cached.token, source: 'cache' };
         }
+
+        const stored = await this.readStore(`account:${key}`);
+        if (stored && this.isTokenValid(stored, this.ACCOUNT_EXPIRY_BUFFER)) {
+            const now = Date.now();
+            this.accountTokens.set(key, { token: stored, fetchedAt: now, lastUsedAt: now });
+            metrics.cacheLookups.inc({ type: 'authenticated', result: 'hit' });
+            logs('debug', 'Returning authenticated token from token store');
+            return { token: stored, source: 'cache' };
+        }
+
+        metrics.cacheLookups.inc({ type: 'authenticated', result: 'miss' });
+
+        const flight = this.startAccountFetch(key, cookies);
+        if (flight.shared) {
+            logs('info', 'Waiting for ongoing authenticated fetch for account');
+        }
+
+        const token = await this.join(flight);
+        return { token, source: flight.shared ? 'shared' : 'fresh' };
+    }
+
+    /**
+     * One authenticated fetch per account at a time, later callers join it
+     */
+    private startAccountFetch(key: string, cookies: Cookie[]): Flight<SpotifyToken> {
+        return this.flights.run(`account:${key}`, async () => {
+            logs('info', 'Fetching fresh authenticated token for sp_dc user');
+
+            try {
+                const token = await this.fetchFromProviders(cookies);
+                const now = Date.now();
+
+                this.accountTokens.set(key, { token, fetchedAt: now, lastUsedAt: now });
+                await this.writeStore(`account:${key}`, token);
+                this.emitRotation({ type: 'authenticated', account: key, token, rotatedAt: now });
+                logs('info', 'Successfully obtained authenticated token');
+
+                return token;
+            } catch (error) {
+                if (error instanceof TokenFetchError && error.reason === 'invalid_cookie') {
+                    logs('warn', 'sp_dc cookie was rejected by Spotify');
+                    this.markAccountRejected(key);
+                    this.emitServiceEvent('account.invalid_cookie', { account: `${key.slice(0, 12)}…` });
+                    throw error;
+                }
+
+                const cached = this.accountTokens.peek(key);
+                if (error instanceof CircuitOpenError && cached && this.isTokenValid(cached.token)) {
+                    logs('warn', 'Circuit open - serving last valid authenticated token');
+                    return cached.token;
+                }
+
+                logs('error', 'Authenticated token fetch failed', error instanceof Error ? error.message : error);
+                throw error;
+            }
+        });
     }
 
     /**
      * Handle anonymous token requests (no sp_dc cookie)
-     * Use cached token if valid, otherwise fetch new one
+     * Served from the token pool when one is configured
+     */
+    private getAnonymousToken(): Promise<TokenResult | null> {
+        return this.anonymousPool ? this.anonymousPool.acquire() : this.getPrimaryAnonymousToken();
+    }
+
+    /**
+     * Primary anonymous token - use cached token if valid, otherwise fetch new one
      */
-    private async getAnonymousToken(): Promise<SpotifyToken | null> {
+    private async getPrimaryAnonymousToken(): Promise<TokenResult> {
         if (this.anonymousToken && this.isTokenValid(this.anonymousToken)) {
+            metrics.cacheLookups.inc({ type: 'anonymous', result: 'hit' });
             logs('debug', 'Returning cached anonymous token');
-            return this.anonymousToken;
+            return { token: this.anonymousToken, source: 'cache' };
         }
 
-        if (this.isRefreshing) {
-            logs('info', 'Waiting for ongoing refresh to complete');
-            await this.waitForRefresh();
-            return this.anonymousToken;
+        const stored = await this.readStore(ANONYMOUS_STORE_KEY);
+        if (stored && this.isTokenValid(stored)) {
+            this.setAnonymousToken(stored);
+            metrics.cacheLookups.inc({ type: 'anonymous', result: 'hit' });
+            logs('info', 'Restored anonymous token from token store');
+            return { token: stored, source: 'cache' };
         }
 
-        logs('info', 'Fetching fresh anonymous token');
-        return this.refreshAnonymousToken();
+        metrics.cacheLookups.inc({ type: 'anonymous', result: 'miss' });
+
+        const flight = this.startAnonymousRefresh(false);
+        logs('info', flight.shared ? 'Waiting for ongoing refresh to complete' : 'Fetching fresh anonymous token');
+
+        const token = await this.join(flight);
+        return { token, source: flight.shared ? 'shared' : 'fresh' };
     }
 
     /**
-     * Refresh anonymous token (used by proactive refresh and on-demand)
+     * On-demand, proactive and forced refreshes all share one in-flight refresh
      */
-    private async refreshAnonymousToken(): Promise<SpotifyToken | null> {
-        if (this.isRefreshing) {
-            await this.waitForRefresh();
-            return this.anonymousToken;
-        }
+    private startAnonymousRefresh(force: boolean): Flight<SpotifyToken> {
+        return this.flights.run(ANONYMOUS_STORE_KEY, () => this.refreshAnonymousToken(force));
+    }
+
+    /**
+     * Callers that joined someone else's refresh wait at most REFRESH_WAIT_TIMEOUT
+     */
+    private join(flight: Flight<SpotifyToken>): Promise<SpotifyToken> {
+        if (!flight.shared) return flight.promise;
+
+        return withDeadline(flight.promise, this.REFRESH_WAIT_TIMEOUT, () =>
+            new TokenFetchError(`Timed out after ${this.REFRESH_WAIT_TIMEOUT}ms waiting for the in-flight refresh`, 'timeout'));
+    }
 
-        this.isRefreshing = true;
+    /**
+     * Refresh anonymous token - only ever called through startAnonymousRefresh
+     * Only the replica holding the shared refresh lock hits the browser,
+     * the others pick the new token up from the token store
+     */
+    private async refreshAnonymousToken(force: boolean): Promise<SpotifyToken> {
+        let lockId: string | null = null;
 
         try {
-            const token = await this.browser.getToken();
+            const lock = await this.acquireRefreshLock();
+            lockId = lock.lockId;
+
+            if (lock.busy) {
+                logs('info', 'Another instance is refreshing the anonymous token - waiting for the shared result');
+                const shared = await this.waitForStoredToken();
+                if (shared) {
+                    this.setAnonymousToken(shared);
+                    return shared;
+                }
+                logs('warn', 'Shared refresh did not complete in time - fetching locally');
+            } else if (!force) {
+                const stored = await this.readStore(ANONYMOUS_STORE_KEY);
+                if (stored && this.isNewerToken(stored) && this.isTokenValid(stored, this.PROACTIVE_REFRESH_BUFFER)) {
+                    this.setAnonymousToken(stored);
+                    logs('info', 'Adopted anonymous token refreshed by another instance');
+                    return stored;
+                }
+            }
+
+            const token = await this.fetchFromProviders();
 
             if (token.isAnonymous) {
-                this.anonymousToken = token;
+                this.setAnonymousToken(token);
+                await this.writeStore(ANONYMOUS_STORE_KEY, token);
+                this.recordRefreshResult(true);
                 logs('info', 'Anonymous token refreshed successfully');
             } else {
                 logs('warn', 'Expected anonymous token but got authenticated token');
@@ -99,36 +404,255 @@ export class Spotify {
 
             return token;
         } catch (error) {
+            if (error instanceof CircuitOpenError && this.anonymousToken && this.isTokenValid(this.anonymousToken)) {
+                logs('warn', 'Circuit open - keeping last valid anonymous token');
+                return this.anonymousToken;
+            }
+
             logs('error', 'Anonymous token refresh failed', error instanceof Error ? error.message : error);
-            return null;
+            this.recordRefreshResult(false, error);
+            throw error;
         } finally {
-            this.isRefreshing = false;
+            if (lockId) {
+                await this.store.releaseLock(ANONYMOUS_REFRESH_LOCK, lockId).catch(error => {
+                    logs('warn', 'Failed to release refresh lock', error instanceof Error ? error.message : error);
+                });
+            }
+        }
+    }
+
+    /**
+     * Provider chain fetch with retries behind the circuit breaker, outcomes feed the health check
+     */
+    private async fetchFromProviders(cookies?: Cookie[], options?: TokenFetchOptions): Promise<SpotifyToken> {
+        try {
+            const token = await this.fetcher.getToken(cookies, options);
+            this.recordFetchOutcome(true);
+            return token;
+        } catch (error) {
+            if (!(error instanceof TokenFetchError && error.reason === 'invalid_cookie')) {
+                this.recordFetchOutcome(false);
+            }
+            throw error;
+        }
+    }
+
+    private recordFetchOutcome(ok: boolean): void {
+        const cutoff = Date.now() - this.FAILURE_WINDOW;
+        this.fetchOutcomes = this.fetchOutcomes.filter(outcome => outcome.at >= cutoff);
+        this.fetchOutcomes.push({ at: Date.now(), ok });
+    }
+
+    private setAnonymousToken(token: SpotifyToken): void {
+        const rotated = this.anonymousToken?.accessToken !== token.accessToken;
+        this.anonymousToken = token;
+        this.lastAnonymousRefreshAt = Date.now();
+        this.anonymousPool?.update(0, token);
+
+        if (rotated) {
+            this.emitRotation({ type: 'anonymous', token, rotatedAt: this.lastAnonymousRefreshAt });
+            this.emitServiceEvent('token.rotated', {
+                clientId: token.clientId,
+                expiresAt: token.accessTokenExpirationTimestampMs,
+                provider: token.provider ?? null,
+            });
+        }
+    }
+
+    /**
+     * Alert once when refreshes start failing repeatedly, and again on recovery
+     */
+    private recordRefreshResult(ok: boolean, error?: unknown): void {
+        if (ok) {
+            if (this.consecutiveRefreshFailures >= this.REFRESH_FAILURE_ALERT_THRESHOLD) {
+                this.emitServiceEvent('refresh.recovered', { failedAttempts: this.consecutiveRefreshFailures });
+            }
+            this.consecutiveRefreshFailures = 0;
+            return;
+        }
+
+        this.consecutiveRefreshFailures++;
+        if (this.consecutiveRefreshFailures === this.REFRESH_FAILURE_ALERT_THRESHOLD) {
+            this.emitServiceEvent('refresh.failing', {
+                consecutiveFailures: this.consecutiveRefreshFailures,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    private emitServiceEvent(type: ServiceEventType, data: Record<string, unknown>): void {
+        try {
+            this.events.emit('service', { type, timestamp: Date.now(), data } satisfies ServiceEvent);
+        } catch (error) {
+            logs('error', 'Service event listener failed', error);
+        }
+    }
+
+    private emitRotation(event: TokenRotationEvent): void {
+        try {
+            this.events.emit('rotation', event);
+        } catch (error) {
+            logs('error', 'Token rotation listener failed', error);
         }
     }
 
+    /**
+     * Token store helpers - store failures degrade to in-memory behavior
+     */
+    private async readStore(key: string): Promise<SpotifyToken | null> {
+        try {
+            return await this.store.get(key);
+        } catch (error) {
+            logs('warn', `Token store read failed (${this.store.name})`, error instanceof Error ? error.message : error);
+            return null;
+        }
+    }
+
+    private async writeStore(key: string, token: SpotifyToken): Promise<void> {
+        try {
+            await this.store.set(key, token);
+        } catch (error) {
+            logs('warn', `Token store write failed (${this.store.name})`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    private async acquireRefreshLock(): Promise<{ busy: boolean; lockId: string | null }> {
+        try {
+            const lockId = await this.store.acquireLock(ANONYMOUS_REFRESH_LOCK, this.REFRESH_LOCK_TTL);
+            return { busy: lockId === null, lockId };
+        } catch (error) {
+            logs('warn', 'Refresh lock unavailable - refreshing without it', error instanceof Error ? error.message : error);
+            return { busy: false, lockId: null };
+        }
+    }
+
+    private async waitForStoredToken(): Promise<SpotifyToken | null> {
+        const deadline = Date.now() + this.REFRESH_LOCK_TTL;
+
+        while (Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 500));
+            const stored = await this.readStore(ANONYMOUS_STORE_KEY);
+            if (stored && this.isNewerToken(stored) && this.isTokenValid(stored)) {
+                return stored;
+            }
+        }
+
+        return null;
+    }
+
+    private isNewerToken(token: SpotifyToken): boolean {
+        return !this.anonymousToken
+            || token.accessTokenExpirationTimestampMs > this.anonymousToken.accessTokenExpirationTimestampMs;
+    }
+
     /**
      * Initialize proactive refresh system for anonymous tokens only
      */
     private initializeProactiveRefresh(): void {
         const checkAndRefresh = async () => {
             try {
-                if (this.anonymousToken && !this.isRefreshing) {
+                if (this.anonymousToken && !this.flights.has(ANONYMOUS_STORE_KEY) && !this.proactiveRefreshPaused) {
                     const timeUntilExpiry = this.anonymousToken.accessTokenExpirationTimestampMs - Date.now();
 
                     if (timeUntilExpiry <= this.PROACTIVE_REFRESH_BUFFER) {
                         logs('info', `Anonymous token expires in ${Math.round(timeUntilExpiry / 1000 / 60)} minutes - proactively refreshing`);
-                        await this.refreshAnonymousToken();
+                        const token = await this.startAnonymousRefresh(false).promise.catch(() => null);
+                        metrics.proactiveRefreshes.inc({ type: 'anonymous', outcome: token ? 'success' : 'failure' });
                     }
                 }
+
+                if (!this.proactiveRefreshPaused) {
+                    await this.refreshVaultAccounts();
+                    await this.refreshWatchedAccounts();
+                }
             } catch (error) {
                 logs('error', 'Proactive refresh check failed', error);
             }
 
-            this.proactiveRefreshTimer = setTimeout(checkAndRefresh, this.CHECK_INTERVAL);
+            // Cleared while the check ran - the service is shutting down
+            if (this.proactiveRefreshTimer) {
+                this.proactiveRefreshTimer = setTimeout(checkAndRefresh, this.CHECK_INTERVAL);
+            }
         };
 
         this.proactiveRefreshTimer = setTimeout(checkAndRefresh, this.CHECK_INTERVAL);
-        logs('info', 'Proactive refresh scheduler started for anonymous tokens');
+        logs('info', 'Proactive refresh scheduler started for anonymous tokens, vault and watched accounts');
+    }
+
+    /**
+     * Keep every vault account's token warm, accounts whose cookie was rejected
+     * are skipped until they are updated
+     */
+    private async refreshVaultAccounts(): Promise<void> {
+        for (const account of this.vault.list()) {
+            if (this.rejectedVaultAccounts.get(account.name) === account.updatedAt) continue;
+            await this.refreshAccountIfDue(this.accountKey(account.cookies), account.cookies, `Vault account "${account.name}"`);
+        }
+    }
+
+    /**
+     * Same for accounts followed by token stream subscribers, so they get rotations
+     * without anything else fetching the account
+     */
+    private async refreshWatchedAccounts(): Promise<void> {
+        for (const [key, watched] of this.watchedAccounts) {
+            if (watched.rejected) continue;
+            await this.refreshAccountIfDue(key, watched.cookies, 'Watched account');
+        }
+    }
+
+    private async refreshAccountIfDue(key: string, cookies: Cookie[], label: string): Promise<void> {
+        const cached = this.accountTokens.peek(key);
+        if (cached && this.isTokenValid(cached.token, this.PROACTIVE_REFRESH_BUFFER)) return;
+
+        logs('info', `${label} token ${cached ? 'expires soon' : 'missing'} - proactively refreshing`);
+        try {
+            await this.startAccountFetch(key, cookies).promise;
+            metrics.proactiveRefreshes.inc({ type: 'account', outcome: 'success' });
+        } catch {
+            metrics.proactiveRefreshes.inc({ type: 'account', outcome: 'failure' });
+        }
+    }
+
+    private markAccountRejected(key: string): void {
+        for (const account of this.vault.list()) {
+            if (this.accountKey(account.cookies) === key) {
+                this.rejectedVaultAccounts.set(account.name, account.updatedAt);
+            }
+        }
+        const watched = this.watchedAccounts.get(key);
+        if (watched) watched.rejected = true;
+    }
+
+    /**
+     * Optional pool of ANONYMOUS_POOL_SIZE anonymous sessions, slot 0 is the primary token
+     * and the extra slots fetch straight from the token providers, each in its own session
+     * (a dedicated browser context the shared context pool never hands out)
+     */
+    private createAnonymousPool(): AnonymousTokenPool | null {
+        const { size, strategy, benchMs, staggerMs } = this.config.anonymousPool;
+        if (size <= 1) return null;
+
+        return new AnonymousTokenPool({
+            size,
+            strategy,
+            refreshBufferMs: this.PROACTIVE_REFRESH_BUFFER,
+            benchMs,
+            checkIntervalMs: this.CHECK_INTERVAL,
+            staggerMs,
+        }, async (slot, force) => {
+            if (slot === 0) {
+                return force
+                    ? this.join(this.startAnonymousRefresh(true))
+                    : (await this.getPrimaryAnonymousToken()).token;
+            }
+
+            const token = await this.fetchFromProviders(undefined, { session: `anonymous-pool-${slot}` });
+            if (!token.isAnonymous) {
+                throw new TokenFetchError('Expected anonymous token but got authenticated token', 'parse_error');
+            }
+            return token;
+        });
     }
 
     /**
@@ -138,49 +662,300 @@ export class Spotify {
         return cookies?.some(cookie => cookie.name === 'sp_dc') || false;
     }
 
-    private isTokenValid(token: SpotifyToken): boolean {
-        const isExpired = token.accessTokenExpirationTimestampMs <= Date.now();
+    private accountKey(cookies: Cookie[]): string {
+        const spDc = cookies.find(cookie => cookie.name === 'sp_dc')?.value ?? '';
+        return createHash('sha256').update(spDc).digest('hex');
+    }
+
+    private canForceRefresh(key: string): boolean {
+        const state = this.forcedRefreshes.get(key);
+        if (!state || state.inFlight) return true;
+        return Date.now() - state.startedAt >= this.FORCE_REFRESH_COOLDOWN;
+    }
+
+    private pruneForcedRefreshes(): void {
+        for (const [key, state] of this.forcedRefreshes) {
+            if (!state.inFlight && Date.now() - state.startedAt >= this.FORCE_REFRESH_COOLDOWN) {
+                this.forcedRefreshes.delete(key);
+            }
+        }
+    }
+
+    private isTokenValid(token: SpotifyToken, bufferMs = 0): boolean {
+        const isExpired = token.accessTokenExpirationTimestampMs - bufferMs <= Date.now();
         return !isExpired;
     }
 
-    private async waitForRefresh(): Promise<void> {
-        let attempts = 0;
-        const maxAttempts = 30;
+    /**
+     * Subscribe to anonymous and authenticated token rotations
+     */
+    public onTokenRotated(listener: (event: TokenRotationEvent) => void): () => void {
+        this.events.on('rotation', listener);
+        return () => this.events.off('rotation', listener);
+    }
+
+    /**
+     * Subscribe to operational events (rotations, failures, browser lifecycle)
+     */
+    public onServiceEvent(listener: (event: ServiceEvent) => void): () => void {
+        this.events.on('service', listener);
+        return () => this.events.off('service', listener);
+    }
+
+    public getAnonymousSnapshot(): SpotifyToken | null {
+        return this.anonymousToken && this.isTokenValid(this.anonymousToken) ? this.anonymousToken : null;
+    }
 
-        while (this.isRefreshing && attempts < maxAttempts) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-            attempts++;
+    public accountKeyOf(cookies: Cookie[]): string {
+        return this.accountKey(cookies);
+    }
+
+    /**
+     * Keep an account's token proactively refreshed while something follows it,
+     * returns the function that stops watching (watches are counted per account)
+     */
+    public watchAccount(cookies: Cookie[]): () => void {
+        const key = this.accountKey(cookies);
+        const watched = this.watchedAccounts.get(key) ?? { cookies, watchers: 0, rejected: false };
+        watched.watchers++;
+        this.watchedAccounts.set(key, watched);
+
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            if (--watched.watchers === 0 && this.watchedAccounts.get(key) === watched) {
+                this.watchedAccounts.delete(key);
+            }
+        };
+    }
+
+    /**
+     * Admin operations
+     */
+    public listTokens() {
+        return {
+            anonymous: this.anonymousToken ? {
+                clientId: this.anonymousToken.clientId,
+                expiresAt: this.anonymousToken.accessTokenExpirationTimestampMs,
+                valid: this.isTokenValid(this.anonymousToken),
+                refreshedAt: this.lastAnonymousRefreshAt,
+                provider: this.anonymousToken.provider ?? null,
+            } : null,
+            accounts: this.getStatus().accounts,
+        };
+    }
+
+    public async invalidateAnonymousToken(): Promise<boolean> {
+        const hadToken = !!this.anonymousToken;
+        this.anonymousToken = null;
+        await this.store.delete(ANONYMOUS_STORE_KEY).catch(error => {
+            logs('warn', 'Token store delete failed', error instanceof Error ? error.message : error);
+        });
+        return hadToken;
+    }
+
+    /**
+     * Invalidate account tokens by full account hash or the redacted prefix shown in status
+     */
+    public async invalidateAccount(account: string): Promise<number> {
+        const prefix = account.replace(/…$/, '').toLowerCase();
+        const keys = [...this.accountTokens].map(([key]) => key).filter(key => key.startsWith(prefix));
+        if (keys.length === 0 && /^[0-9a-f]{64}$/.test(prefix)) keys.push(prefix);
+
+        for (const key of keys) {
+            this.accountTokens.delete(key);
+            await this.store.delete(`account:${key}`).catch(error => {
+                logs('warn', 'Token store delete failed', error instanceof Error ? error.message : error);
+            });
         }
+        return keys.length;
     }
 
     /**
-     * Cleanup resources
+     * Vault management - cookies are never returned, only names and token state
      */
-    public async cleanup(): Promise<void> {
+    public get vaultEnabled(): boolean {
+        return this.vault.enabled;
+    }
+
+    public listVaultAccounts() {
+        return this.vault.list().map(account => this.describeVaultAccount(account.name));
+    }
+
+    public saveVaultAccount(name: string, cookies: Cookie[]) {
+        const previous = this.vault.has(name) ? this.accountKey(this.vault.get(name).cookies) : null;
+        const account = this.vault.put(name, cookies);
+        const key = this.accountKey(account.cookies);
+
+        this.rejectedVaultAccounts.delete(name);
+        if (previous && previous !== key) {
+            void this.invalidateAccount(previous);
+        }
+
+        // Warm the token in the background so the first request is a cache hit
+        this.startAccountFetch(key, account.cookies).promise.catch(() => undefined);
+        return this.describeVaultAccount(name);
+    }
+
+    public async deleteVaultAccount(name: string): Promise<void> {
+        const key = this.accountKey(this.vault.get(name).cookies);
+        this.vault.delete(name);
+        this.rejectedVaultAccounts.delete(name);
+        await this.invalidateAccount(key);
+    }
+
+    private describeVaultAccount(name: string) {
+        const account = this.vault.get(name);
+        const key = this.accountKey(account.cookies);
+        const cached = this.accountTokens.peek(key);
+
+        return {
+            name: account.name,
+            account: `${key.slice(0, 12)}…`,
+            createdAt: account.createdAt,
+            updatedAt: account.updatedAt,
+            cookieRejected: this.rejectedVaultAccounts.get(account.name) === account.updatedAt,
+            token: cached ? {
+                clientId: cached.token.clientId,
+                expiresAt: cached.token.accessTokenExpirationTimestampMs,
+                valid: this.isTokenValid(cached.token),
+            } : null,
+        };
+    }
+
+    /**
+     * Client feedback that a served anonymous token hit Spotify's rate limit
+     * Pooled tokens are taken out of rotation, without a pool the token is replaced
+     */
+    public reportRateLimited(accessToken: string): { slot: number | null } | null {
+        if (this.anonymousPool) {
+            const slot = this.anonymousPool.reportRateLimited(accessToken);
+            return slot === null ? null : { slot };
+        }
+
+        if (this.anonymousToken?.accessToken !== accessToken) return null;
+
+        logs('warn', 'Anonymous token reported rate limited - replacing it');
+        this.startAnonymousRefresh(true).promise.catch(() => undefined);
+        return { slot: null };
+    }
+
+    public refreshAnonymousNow(): Promise<SpotifyToken | null> {
+        return this.join(this.startAnonymousRefresh(true)).catch(() => null);
+    }
+
+    public restartBrowser(): Promise<void> {
+        return this.requireBrowser().restart();
+    }
+
+    public recycleBrowser(reason: string): Promise<void> {
+        return this.requireBrowser().recycle(reason);
+    }
+
+    public reloadBrowserFingerprint(): string[] {
+        return this.requireBrowser().reloadFingerprint();
+    }
+
+    private requireBrowser(): SpotifyBrowser {
+        if (!this.browser) throw new NotFoundError('The browser token provider is not enabled');
+        return this.browser;
+    }
+
+    public setProactiveRefreshPaused(paused: boolean): void {
+        this.proactiveRefreshPaused = paused;
+        logs('info', `Proactive refresh ${paused ? 'paused' : 'resumed'}`);
+    }
+
+    /**
+     * Stop scheduling refreshes and wait for the fetches already running, up to
+     * `timeoutMs`; resolves false when some were still running at the deadline
+     */
+    public async drain(timeoutMs: number): Promise<boolean> {
+        this.stopRefreshTimers();
+
+        const pending = [...this.flights.pending(), ...(this.anonymousPool?.pending() ?? [])];
+        if (pending.length === 0) return true;
+
+        logs('info', `Waiting up to ${timeoutMs}ms for ${pending.length} in-flight token fetches`);
+        const settled = Promise.allSettled(pending).then(() => true);
+        return withDeadline(settled, timeoutMs, () => new Error('drain deadline')).catch(() => false);
+    }
+
+    private stopRefreshTimers(): void {
         if (this.proactiveRefreshTimer) {
             clearTimeout(this.proactiveRefreshTimer);
             this.proactiveRefreshTimer = null;
             logs('info', 'Proactive refresh timer stopped');
         }
+        this.anonymousPool?.close();
+    }
+
+    /**
+     * Cleanup resources
+     */
+    public async cleanup(): Promise<void> {
+        this.stopRefreshTimers();
 
-        await this.browser.close();
+        await this.providers.close();
+        await this.store.close();
         this.anonymousToken = null;
-        this.authenticatedToken = null;
+        this.accountTokens.clear();
+        this.forcedRefreshes.clear();
+        this.watchedAccounts.clear();
+        this.events.removeAllListeners();
         logs('info', 'Token service cleanup completed');
     }
 
+    /**
+     * Raw signals for the readiness check
+     */
+    public getHealth() {
+        const cutoff = Date.now() - this.FAILURE_WINDOW;
+        const recent = this.fetchOutcomes.filter(outcome => outcome.at >= cutoff);
+
+        return {
+            browserConnected: this.browser ? this.browser.getStatus().connected : null,
+            anonymousTokenValid: this.anonymousToken ? this.isTokenValid(this.anonymousToken) : false,
+            anonymousTokenExpiry: this.anonymousToken?.accessTokenExpirationTimestampMs ?? null,
+            lastAnonymousRefreshAt: this.lastAnonymousRefreshAt,
+            recentFetches: recent.length,
+            recentFailures: recent.filter(outcome => !outcome.ok).length,
+            failureWindowMs: this.FAILURE_WINDOW,
+            circuitState: this.fetcher.breaker.getStatus().state,
+        };
+    }
+
     /**
      * Get service status for debugging
      */
     public getStatus() {
         return {
             hasAnonymousToken: !!this.anonymousToken,
-            hasAuthenticatedToken: !!this.authenticatedToken,
-            isRefreshing: this.isRefreshing,
+            hasAuthenticatedToken: this.accountTokens.size > 0,
+            isRefreshing: this.flights.has(ANONYMOUS_STORE_KEY),
+            proactiveRefreshPaused: this.proactiveRefreshPaused,
+            tokenStore: this.store.name,
+            circuitBreaker: this.fetcher.breaker.getStatus(),
+            forceRefreshCooldownMs: this.FORCE_REFRESH_COOLDOWN,
+            activeForcedRefreshes: [...this.forcedRefreshes.values()].filter(state => state.inFlight).length,
             anonymousTokenExpiry: this.anonymousToken?.accessTokenExpirationTimestampMs,
-            authenticatedTokenExpiry: this.authenticatedToken?.accessTokenExpirationTimestampMs,
             anonymousTokenValid: this.anonymousToken ? this.isTokenValid(this.anonymousToken) : false,
-            authenticatedTokenValid: this.authenticatedToken ? this.isTokenValid(this.authenticatedToken) : false,
+            providers: this.providers.getStatus(),
+            browser: this.browser?.getStatus() ?? null,
+            accountCacheSize: this.ACCOUNT_CACHE_SIZE,
+            pendingAccountFetches: this.flights.keys().filter(key => key.startsWith('account:')).length,
+            vaultAccounts: this.vault.enabled ? this.vault.list().length : null,
+            anonymousPool: this.anonymousPool?.getStatus() ?? null,
+            accounts: [...this.accountTokens].map(([key, entry]) => ({
+                account: `${key.slice(0, 12)}…`,
+                clientId: entry.token.clientId,
+                expiresAt: entry.token.accessTokenExpirationTimestampMs,
+                valid: this.isTokenValid(entry.token),
+                provider: entry.token.provider ?? null,
+                fetchedAt: entry.fetchedAt,
+                lastUsedAt: entry.lastUsedAt,
+            })),
         };
     }
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import type { SpotifyToken, TokenStore } from '../../types/types';
+import { logs } from '../../utils/logger';
+
+const PREFIX = 'enc:v1:';
+// Every replica derives the same key from TOKEN_STORE_KEY, so the salt is fixed
+const SALT = 'spotokn-token-store';
+
+/**
+ * Wraps a shared store so authenticated access tokens are only written encrypted (AES-256-GCM)
+ * Expiry and client id stay readable for the backend, anonymous tokens are left as is
+ */
+export class EncryptedTokenStore implements TokenStore {
+    private readonly key: Buffer;
+
+    constructor(private readonly store: TokenStore, secret: string) {
+        this.key = scryptSync(secret, SALT, 32);
+    }
+
+    public get name(): string {
+        return this.store.name;
+    }
+
+    public async get(key: string): Promise<SpotifyToken | null> {
+        const token = await this.store.get(key);
+        if (!token?.accessToken.startsWith(PREFIX)) return token;
+
+        try {
+            return { ...token, accessToken: this.decrypt(token.accessToken) };
+        } catch {
+            // Written with another TOKEN_STORE_KEY - a cache miss, the token is fetched again
+            logs('warn', `Stored token "${key}" cannot be decrypted - is TOKEN_STORE_KEY the same on every replica?`);
+            return null;
+        }
+    }
+
+    public async set(key: string, token: SpotifyToken): Promise<void> {
+        await this.store.set(key, token.isAnonymous ? token : { ...token, accessToken: this.encrypt(token.accessToken) });
+    }
+
+    public delete(key: string): Promise<void> {
+        return this.store.delete(key);
+    }
+
+    public acquireLock(name: string, ttlMs: number): Promise<string | null> {
+        return this.store.acquireLock(name, ttlMs);
+    }
+
+    public releaseLock(name: string, lockId: string): Promise<void> {
+        return this.store.releaseLock(name, lockId);
+    }
+
+    public close(): Promise<void> {
+        return this.store.close();
+    }
+
+    private encrypt(value: string): string {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+        const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+        return PREFIX + [iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join('.');
+    }
+
+    private decrypt(value: string): string {
+        const [iv, tag, data] = value.slice(PREFIX.length).split('.').map(part => Buffer.from(part, 'base64'));
+        const decipher = createDecipheriv('aes-256-gcm', this.key, iv!);
+        decipher.setAuthTag(tag!);
+        return Buffer.concat([decipher.update(data!), decipher.final()]).toString('utf8');
+    }
+}
@@ -0,0 +1,184 @@
+import { link, mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { SpotifyToken, TokenStore } from '../../types/types';
+import { logs } from '../../utils/logger';
+import { MutexLock } from '../../utils/mutex';
+
+interface LockFile {
+    id: string;
+    expiresAt: number;
+    /** Id of the expired lock this one took over */
+    previous?: string;
+}
+
+const DATA_LOCK = 'data';
+const DATA_LOCK_TTL_MS = 10000;
+const DATA_LOCK_WAIT_MS = 5000;
+
+/**
+ * JSON file store, survives restarts and can be shared by replicas on the same volume
+ * Locks are lock files next to the token file, which itself is only rewritten under the `data` lock
+ */
+export class FileTokenStore implements TokenStore {
+    public readonly name = 'file';
+    private readonly mutex = new MutexLock();
+
+    constructor(private readonly path: string) { }
+
+    public async get(key: string): Promise<SpotifyToken | null> {
+        const tokens = await this.read();
+        return tokens[key] ?? null;
+    }
+
+    public async set(key: string, token: SpotifyToken): Promise<void> {
+        await this.update(tokens => {
+            tokens[key] = token;
+        });
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.update(tokens => {
+            delete tokens[key];
+        });
+    }
+
+    /**
+     * Locks are created with link() so only one replica wins an empty slot, and an
+     * expired lock is replaced only by the replica that claims its takeover marker
+     */
+    public async acquireLock(name: string, ttlMs: number): Promise<string | null> {
+        const lockPath = this.lockPath(name);
+        await mkdir(dirname(lockPath), { recursive: true });
+
+        const lock: LockFile = { id: crypto.randomUUID(), expiresAt: Date.now() + ttlMs };
+        const existing = await this.readLock(lockPath);
+        if (!existing) {
+            return await this.placeLock(lockPath, lock, false) ? lock.id : null;
+        }
+        if (existing.expiresAt > Date.now()) return null;
+
+        try {
+            await writeFile(this.takeoverPath(lockPath, existing.id), '', { flag: 'wx' });
+        } catch {
+            return null;
+        }
+
+        // The marker may be left over from long ago - only replace the lock we saw expire
+        if ((await this.readLock(lockPath))?.id !== existing.id) return null;
+
+        await this.placeLock(lockPath, { ...lock, previous: existing.id }, true);
+        if (existing.previous) {
+            await rm(this.takeoverPath(lockPath, existing.previous), { force: true });
+        }
+        return lock.id;
+    }
+
+    public async releaseLock(name: string, lockId: string): Promise<void> {
+        const lockPath = this.lockPath(name);
+        const existing = await this.readLock(lockPath);
+
+        // Once expired the lock may be taken over any moment, leave it to the next owner
+        if (existing?.id === lockId && existing.expiresAt > Date.now()) {
+            await rm(lockPath, { force: true });
+            if (existing.previous) {
+                await rm(this.takeoverPath(lockPath, existing.previous), { force: true });
+            }
+        }
+    }
+
+    public async close(): Promise<void> { }
+
+    private lockPath(name: string): string {
+        return `${this.path}.${name}.lock`;
+    }
+
+    private takeoverPath(lockPath: string, lockId: string): string {
+        return `${lockPath}.takeover-${lockId}`;
+    }
+
+    /**
+     * Lock files are written in full before they appear, an unparsable one is treated as expired
+     */
+    private async readLock(lockPath: string): Promise<LockFile | null> {
+        let content: string;
+        try {
+            content = await readFile(lockPath, 'utf8');
+        } catch {
+            return null;
+        }
+
+        try {
+            return JSON.parse(content) as LockFile;
+        } catch {
+            return { id: 'unreadable', expiresAt: 0 };
+        }
+    }
+
+    /**
+     * `replace` swaps the lock file atomically, otherwise it only appears when no lock exists
+     */
+    private async placeLock(lockPath: string, lock: LockFile, replace: boolean): Promise<boolean> {
+        const tempPath = `${lockPath}.${lock.id}.tmp`;
+        await writeFile(tempPath, JSON.stringify(lock));
+
+        if (replace) {
+            await rename(tempPath, lockPath);
+            return true;
+        }
+
+        try {
+            await link(tempPath, lockPath);
+            return true;
+        } catch {
+            return false;
+        } finally {
+            await rm(tempPath, { force: true });
+        }
+    }
+
+    /**
+     * Other replicas write the same file, so updates hold the cross-process data lock
+     */
+    private async lockData(): Promise<string> {
+        const deadline = Date.now() + DATA_LOCK_WAIT_MS;
+
+        while (true) {
+            const lockId = await this.acquireLock(DATA_LOCK, DATA_LOCK_TTL_MS);
+            if (lockId) return lockId;
+            if (Date.now() >= deadline) {
+                throw new Error(`Token store file ${this.path} stayed locked by another process for ${DATA_LOCK_WAIT_MS}ms`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 25));
+        }
+    }
+
+    private async read(): Promise<Record<string, SpotifyToken>> {
+        try {
+            return JSON.parse(await readFile(this.path, 'utf8')) as Record<string, SpotifyToken>;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logs('warn', `Token store file ${this.path} is unreadable - starting empty`, error instanceof Error ? error.message : error);
+            }
+            return {};
+        }
+    }
+
+    private async update(mutate: (tokens: Record<string, SpotifyToken>) => void): Promise<void> {
+        const release = await this.mutex.lock();
+        let lockId: string | null = null;
+        try {
+            lockId = await this.lockData();
+            const tokens = await this.read();
+            mutate(tokens);
+
+            // Write to a temp file first so readers never see a partial file
+            // (named per write - containers all run as the same pid)
+            const tempPath = `${this.path}.${crypto.randomUUID()}.tmp`;
+            await writeFile(tempPath, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+            await rename(tempPath, this.path);
+        } finally {
+            if (lockId) await this.releaseLock(DATA_LOCK, lockId);
+            release();
+        }
+    }
+}
@@ -0,0 +1,40 @@
+import type { TokenStore } from '../../types/types';
+import { getConfig } from '../../config';
+import { logs } from '../../utils/logger';
+import { EncryptedTokenStore } from './encrypted';
+import { FileTokenStore } from './file';
+import { MemoryTokenStore } from './memory';
+import { RedisTokenStore } from './redis';
+
+export { EncryptedTokenStore, FileTokenStore, MemoryTokenStore, RedisTokenStore };
+
+/**
+ * Build the token store selected by TOKEN_STORE (memory | file | redis)
+ * Shared stores encrypt authenticated tokens when TOKEN_STORE_KEY is set
+ */
+export function createTokenStore(): TokenStore {
+    const { backend, key } = getConfig().store;
+    if (backend === 'memory') return new MemoryTokenStore();
+
+    const store = createSharedStore(backend);
+    if (key) {
+        logs('info', 'Authenticated tokens are encrypted in the token store');
+        return new EncryptedTokenStore(store, key);
+    }
+
+    logs('warn', `Authenticated tokens are stored in plaintext in the ${backend} store - set TOKEN_STORE_KEY to encrypt them`);
+    return store;
+}
+
+function createSharedStore(backend: 'file' | 'redis'): TokenStore {
+    const { file, redisUrl, prefix } = getConfig().store;
+
+    switch (backend) {
+        case 'file':
+            logs('info', `Using file token store at ${file}`);
+            return new FileTokenStore(file);
+        case 'redis':
+            logs('info', 'Using Redis token store');
+            return new RedisTokenStore(redisUrl, prefix);
+    }
+}
@@ -0,0 +1,42 @@
+import type { SpotifyToken, TokenStore } from '../../types/types';
+
+/**
+ * Process-local store, tokens are lost on restart
+ */
+export class MemoryTokenStore implements TokenStore {
+    public readonly name = 'memory';
+    private tokens = new Map<string, SpotifyToken>();
+    private locks = new Map<string, { id: string; expiresAt: number }>();
+
+    public async get(key: string): Promise<SpotifyToken | null> {
+        return this.tokens.get(key) ?? null;
+    }
+
+    public async set(key: string, token: SpotifyToken): Promise<void> {
+        this.tokens.set(key, token);
+    }
+
+    public async delete(key: string): Promise<void> {
+        this.tokens.delete(key);
+    }
+
+    public async acquireLock(name: string, ttlMs: number): Promise<string | null> {
+        const current = this.locks.get(name);
+        if (current && current.expiresAt > Date.now()) return null;
+
+        const id = crypto.randomUUID();
+        this.locks.set(name, { id, expiresAt: Date.now() + ttlMs });
+        return id;
+    }
+
+    public async releaseLock(name: string, lockId: string): Promise<void> {
+        if (this.locks.get(name)?.id === lockId) {
+            this.locks.delete(name);
+        }
+    }
+
+    public async close(): Promise<void> {
+        this.tokens.clear();
+        this.locks.clear();
+    }
+}
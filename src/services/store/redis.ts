@@ -0,0 +1,49 @@
+import { RedisClient } from 'bun';
+import type { SpotifyToken, TokenStore } from '../../types/types';
+
+const RELEASE_LOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+/**
+ * Redis-protocol store shared by every replica
+ * Token keys expire together with the token, locks use SET NX PX
+ */
+export class RedisTokenStore implements TokenStore {
+    public readonly name = 'redis';
+    private readonly client: RedisClient;
+
+    constructor(url: string, private readonly prefix: string) {
+        this.client = new RedisClient(url);
+    }
+
+    public async get(key: string): Promise<SpotifyToken | null> {
+        const value = await this.client.get(this.prefix + key);
+        return value ? JSON.parse(value) as SpotifyToken : null;
+    }
+
+    public async set(key: string, token: SpotifyToken): Promise<void> {
+        const ttl = Math.max(token.accessTokenExpirationTimestampMs - Date.now(), 1000);
+        await this.client.send('SET', [this.prefix + key, JSON.stringify(token), 'PX', String(ttl)]);
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.client.del(this.prefix + key);
+    }
+
+    public async acquireLock(name: string, ttlMs: number): Promise<string | null> {
+        const id = crypto.randomUUID();
+        const result = await this.client.send('SET', [this.lockKey(name), id, 'PX', String(ttlMs), 'NX']);
+        return result === 'OK' ? id : null;
+    }
+
+    public async releaseLock(name: string, lockId: string): Promise<void> {
+        await this.client.send('EVAL', [RELEASE_LOCK_SCRIPT, '1', this.lockKey(name), lockId]);
+    }
+
+    public async close(): Promise<void> {
+        this.client.close();
+    }
+
+    private lockKey(name: string): string {
+        return `${this.prefix}lock:${name}`;
+    }
+}
@@ -0,0 +1,174 @@
+import type { Spotify } from './spotify';
+import type { ApiClient, TokenResult, TokenRotationEvent, TokenSource, SpotifyToken } from '../types/types';
+import { getConfig } from '../config';
+import { logs } from '../utils/logger';
+import { CircuitOpenError, TokenFetchError, fetchFailureReason } from '../utils/errors';
+import { errorResponse, tokenResponse } from '../utils/response';
+
+export type StreamScope = 'anonymous' | 'account';
+
+export interface StreamSubscriber {
+    id: string;
+    /** Account hash for account-scoped subscribers, null for the anonymous token */
+    account: string | null;
+    send(event: 'token' | 'heartbeat' | 'error', data: unknown): void;
+    /** End the transport, called when the hub shuts down */
+    close(): void;
+}
+
+/**
+ * Fans token rotations out to SSE and WebSocket subscribers
+ * Transport-agnostic: each subscriber brings its own send and close functions.
+ * Accounts with subscribers are watched, so the token service refreshes them
+ * proactively and every rotation reaches the stream
+ */
+export class TokenStreamHub {
+    private subscribers = new Map<string, StreamSubscriber>();
+    private accountWatches = new Map<string, () => void>();
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private readonly unsubscribeRotation: () => void;
+
+    private readonly HEARTBEAT_INTERVAL = getConfig().stream.heartbeatMs;
+
+    constructor(private readonly tokenService: Spotify) {
+        this.unsubscribeRotation = tokenService.onTokenRotated(event => this.broadcast(event));
+    }
+
+    /**
+     * Resolve the subscription scope for a client, throws when an account
+     * stream is requested by a key without a registered account
+     */
+    public resolveAccount(client: ApiClient, scope: StreamScope): string | null {
+        if (scope === 'anonymous') return null;
+        if (!client.cookies) {
+            throw new Error('This API key has no registered Spotify account');
+        }
+        return this.tokenService.accountKeyOf(client.cookies);
+    }
+
+    /**
+     * Register a subscriber and send it the current token
+     */
+    public async subscribe(subscriber: StreamSubscriber, client: ApiClient): Promise<void> {
+        this.subscribers.set(subscriber.id, subscriber);
+        if (subscriber.account && client.cookies) {
+            this.accountWatches.set(subscriber.id, this.tokenService.watchAccount(client.cookies));
+        }
+        this.ensureHeartbeat();
+        logs('info', `Token stream subscriber connected (${subscriber.account ? 'account' : 'anonymous'}, ${this.subscribers.size} total)`);
+
+        let result: TokenResult | null;
+        try {
+            result = await this.tokenService.getToken(subscriber.account ? client.cookies : undefined);
+        } catch (error) {
+            // The subscriber stays connected and gets the token with the next rotation
+            const payload = this.failurePayload(error);
+            logs('warn', `Initial token for stream subscriber failed (${payload.details})`);
+            if (this.subscribers.has(subscriber.id)) {
+                this.safeSend(subscriber, 'error', payload);
+            }
+            return;
+        }
+        if (!this.subscribers.has(subscriber.id)) return;
+
+        if (result) {
+            this.safeSend(subscriber, 'token', tokenResponse(result));
+        } else {
+            this.safeSend(subscriber, 'error', errorResponse('Token service temporarily unavailable'));
+        }
+    }
+
+    public unsubscribe(id: string): void {
+        if (!this.subscribers.delete(id)) return;
+        this.releaseWatch(id);
+        logs('info', `Token stream subscriber disconnected (${this.subscribers.size} remaining)`);
+
+        if (this.subscribers.size === 0 && this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+    }
+
+    public get size(): number {
+        return this.subscribers.size;
+    }
+
+    /**
+     * Stop fanning out and end every subscriber's stream
+     */
+    public close(): void {
+        this.unsubscribeRotation();
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+
+        const subscribers = [...this.subscribers.values()];
+        this.subscribers.clear();
+        for (const subscriber of subscribers) {
+            this.releaseWatch(subscriber.id);
+            try {
+                subscriber.close();
+            } catch (error) {
+                logs('debug', 'Token stream subscriber was already closed', error instanceof Error ? error.message : error);
+            }
+        }
+        if (subscribers.length > 0) {
+            logs('info', `Closed ${subscribers.length} token stream subscriber(s)`);
+        }
+    }
+
+    private releaseWatch(id: string): void {
+        this.accountWatches.get(id)?.();
+        this.accountWatches.delete(id);
+    }
+
+    private broadcast(event: TokenRotationEvent): void {
+        const account = event.type === 'authenticated' ? event.account ?? null : null;
+        const payload = this.payload(event.token, 'fresh');
+
+        for (const subscriber of this.subscribers.values()) {
+            if (subscriber.account !== account) continue;
+            this.safeSend(subscriber, 'token', payload);
+        }
+    }
+
+    private ensureHeartbeat(): void {
+        if (this.heartbeatTimer) return;
+
+        this.heartbeatTimer = setInterval(() => {
+            for (const subscriber of this.subscribers.values()) {
+                this.safeSend(subscriber, 'heartbeat', { timestamp: Date.now() });
+            }
+        }, this.HEARTBEAT_INTERVAL);
+    }
+
+    private safeSend(subscriber: StreamSubscriber, event: 'token' | 'heartbeat' | 'error', data: unknown): void {
+        try {
+            subscriber.send(event, data);
+        } catch (error) {
+            logs('warn', 'Dropping token stream subscriber after failed send', error instanceof Error ? error.message : error);
+            this.unsubscribe(subscriber.id);
+        }
+    }
+
+    private payload(token: SpotifyToken, source: TokenSource) {
+        return tokenResponse({ token, source });
+    }
+
+    /**
+     * Same reasons as a failed `GET /api/token` response
+     */
+    private failurePayload(error: unknown) {
+        if (error instanceof CircuitOpenError) {
+            return errorResponse('Token service temporarily unavailable', {
+                details: 'circuit_open',
+                retryAfter: Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000)),
+            });
+        }
+        if (error instanceof TokenFetchError && error.reason === 'invalid_cookie') {
+            return errorResponse('sp_dc cookie was rejected by Spotify', { details: error.reason });
+        }
+        return errorResponse('Token service temporarily unavailable', { details: fetchFailureReason(error) });
+    }
+}
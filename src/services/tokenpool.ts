@@ -0,0 +1,221 @@
+import type { SpotifyToken, TokenResult } from '../types/types';
+import { logs } from '../utils/logger';
+import { SingleFlight } from '../utils/singleflight';
+
+export type PoolStrategy = 'round-robin' | 'lru';
+
+interface PoolSlot {
+    id: number;
+    token: SpotifyToken | null;
+    fetchedAt: number | null;
+    lastServedAt: number;
+    served: number;
+    /** Out of rotation until this time after a client reported it rate limited */
+    benchedUntil: number;
+}
+
+export interface TokenPoolOptions {
+    size: number;
+    strategy: PoolStrategy;
+    refreshBufferMs: number;
+    benchMs: number;
+    checkIntervalMs: number;
+    staggerMs: number;
+}
+
+/**
+ * Pool of anonymous tokens, each fetched in its own isolated browser context,
+ * so traffic is spread over several Spotify client sessions
+ * Slot 0 mirrors the primary anonymous token (kept fresh by the token service),
+ * the other slots are refreshed here one at a time so their expiries stay staggered
+ */
+export class AnonymousTokenPool {
+    private readonly slots: PoolSlot[];
+    private readonly flights = new SingleFlight<SpotifyToken>();
+    private cursor = 0;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly options: TokenPoolOptions,
+        private readonly fetchSlot: (slot: number, force: boolean) => Promise<SpotifyToken>,
+    ) {
+        this.slots = Array.from({ length: options.size }, (_, id) => ({
+            id,
+            token: null,
+            fetchedAt: null,
+            lastServedAt: 0,
+            served: 0,
+            benchedUntil: 0,
+        }));
+
+        // Warm the extra slots one after another instead of all at once
+        this.timer = setTimeout(() => this.tick(), options.staggerMs);
+        logs('info', `Anonymous token pool enabled with ${options.size} sessions (${options.strategy})`);
+    }
+
+    /**
+     * Pick the next usable token by strategy, fetching one when none is usable
+     */
+    public async acquire(): Promise<TokenResult> {
+        const now = Date.now();
+        const usable = this.slots.filter(slot => this.isUsable(slot, now));
+
+        if (usable.length > 0) {
+            const slot = this.pick(usable);
+            slot.lastServedAt = now;
+            slot.served++;
+            return { token: slot.token!, source: 'cache' };
+        }
+
+        const slot = this.slots.find(candidate => !this.isBenched(candidate, now) && !this.isValid(candidate))
+            ?? this.slots.reduce((soonest, candidate) => candidate.benchedUntil < soonest.benchedUntil ? candidate : soonest);
+
+        logs('info', `No usable pooled token - refreshing slot ${slot.id}`);
+        const { promise, shared } = this.refreshSlot(slot, this.isBenched(slot, now));
+        const token = await promise;
+        slot.lastServedAt = Date.now();
+        slot.served++;
+        return { token, source: shared ? 'shared' : 'fresh' };
+    }
+
+    /**
+     * Mirror a token obtained outside the pool (slot 0 is the primary anonymous token)
+     */
+    public update(slotId: number, token: SpotifyToken): void {
+        const slot = this.slots[slotId];
+        if (!slot) return;
+
+        if (slot.token?.accessToken !== token.accessToken) {
+            slot.benchedUntil = 0;
+        }
+        slot.token = token;
+        slot.fetchedAt = Date.now();
+    }
+
+    /**
+     * Take a rate-limited token out of rotation and replace its session in the background
+     * Returns the slot id, or null when the token is not pooled
+     */
+    public reportRateLimited(accessToken: string): number | null {
+        const slot = this.slots.find(candidate => candidate.token?.accessToken === accessToken);
+        if (!slot) return null;
+
+        slot.benchedUntil = Date.now() + this.options.benchMs;
+        logs('warn', `Pooled token in slot ${slot.id} reported rate limited - out of rotation`);
+        this.refreshSlot(slot, true).promise.catch(() => undefined);
+        return slot.id;
+    }
+
+    public getStatus() {
+        const now = Date.now();
+        return {
+            size: this.options.size,
+            strategy: this.options.strategy,
+            usable: this.slots.filter(slot => this.isUsable(slot, now)).length,
+            slots: this.slots.map(slot => ({
+                slot: slot.id,
+                valid: this.isValid(slot),
+                expiresAt: slot.token?.accessTokenExpirationTimestampMs ?? null,
+                fetchedAt: slot.fetchedAt,
+                served: slot.served,
+                lastServedAt: slot.lastServedAt || null,
+                benchedUntil: this.isBenched(slot, now) ? slot.benchedUntil : null,
+                refreshing: this.flights.has(String(slot.id)),
+            })),
+        };
+    }
+
+    /**
+     * Drop a revoked token and replace its session in the background
+     * Slot 0 is only cleared, the token service refreshes the primary token itself
+     * Returns the slot id, or null when the token is not pooled
+     */
+    public evict(accessToken: string): number | null {
+        const slot = this.slots.find(candidate => candidate.token?.accessToken === accessToken);
+        if (!slot) return null;
+
+        slot.token = null;
+        slot.fetchedAt = null;
+        if (slot.id !== 0) {
+            this.refreshSlot(slot, true).promise.catch(() => undefined);
+        }
+        return slot.id;
+    }
+
+    /**
+     * Slot refreshes still running, for draining on shutdown
+     */
+    public pending(): Promise<unknown>[] {
+        return this.flights.pending();
+    }
+
+    public close(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Refresh at most one extra slot per tick - the one closest to expiry
+     */
+    private async tick(): Promise<void> {
+        const due = this.slots
+            .filter(slot => slot.id !== 0 && !this.flights.has(String(slot.id)))
+            .filter(slot => !slot.token || slot.token.accessTokenExpirationTimestampMs - this.options.refreshBufferMs <= Date.now())
+            .sort((a, b) => (a.token?.accessTokenExpirationTimestampMs ?? 0) - (b.token?.accessTokenExpirationTimestampMs ?? 0))[0];
+
+        if (due) {
+            await this.refreshSlot(due, false).promise.catch(() => undefined);
+        }
+
+        if (this.timer) {
+            // Keep warming quickly until every slot has a token
+            const warming = this.slots.some(slot => !slot.token);
+            this.timer = setTimeout(() => this.tick(), warming ? this.options.staggerMs : this.options.checkIntervalMs);
+        }
+    }
+
+    private refreshSlot(slot: PoolSlot, force: boolean) {
+        return this.flights.run(String(slot.id), async () => {
+            try {
+                const token = await this.fetchSlot(slot.id, force);
+                this.update(slot.id, token);
+                logs('info', `Pooled anonymous token refreshed (slot ${slot.id})`);
+                return token;
+            } catch (error) {
+                logs('error', `Pooled anonymous token refresh failed (slot ${slot.id})`, error instanceof Error ? error.message : error);
+                throw error;
+            }
+        });
+    }
+
+    private pick(usable: PoolSlot[]): PoolSlot {
+        if (this.options.strategy === 'lru') {
+            return usable.reduce((least, slot) => slot.lastServedAt < least.lastServedAt ? slot : least);
+        }
+
+        // Round-robin over slot ids, skipping slots that are not usable right now
+        for (let offset = 0; offset < this.slots.length; offset++) {
+            const id = (this.cursor + offset) % this.slots.length;
+            const slot = usable.find(candidate => candidate.id === id);
+            if (slot) {
+                this.cursor = id + 1;
+                return slot;
+            }
+        }
+        return usable[0]!;
+    }
+
+    private isUsable(slot: PoolSlot, now: number): boolean {
+        return this.isValid(slot) && !this.isBenched(slot, now);
+    }
+
+    private isValid(slot: PoolSlot): boolean {
+        return !!slot.token && slot.token.accessTokenExpirationTimestampMs > Date.now();
+    }
+
+    private isBenched(slot: PoolSlot, now: number): boolean {
+        return slot.benchedUntil > now;
+    }
+}
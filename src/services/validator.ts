@@ -0,0 +1,88 @@
+import type { SpotifyToken } from '../types/types';
+import { getConfig } from '../config';
+import { logs } from '../utils/logger';
+import { LRUCache } from '../utils/lru';
+import { metrics } from '../utils/metrics';
+import { SingleFlight } from '../utils/singleflight';
+
+export interface TokenValidation {
+    /** false when the probe rejected the token (401), null when the probe itself failed */
+    valid: boolean | null;
+    status: number | null;
+    checkedAt: number;
+    error: string | null;
+}
+
+const RESULT_HISTORY = 1000;
+
+/**
+ * Checks cached tokens against TOKEN_VALIDATION_URL before they are served, so a
+ * token Spotify revoked early is replaced instead of handed out until it expires
+ * Results are reused for TOKEN_VALIDATION_INTERVAL_MS; only a 401 marks a token
+ * revoked, an unreachable or failing probe never blocks serving
+ */
+export class TokenValidator {
+    private readonly results = new LRUCache<string, TokenValidation>(RESULT_HISTORY);
+    private readonly flights = new SingleFlight<TokenValidation>();
+
+    private readonly PROBE_URL = getConfig().validation.probeUrl;
+    private readonly INTERVAL = getConfig().validation.intervalMs;
+    private readonly TIMEOUT = getConfig().validation.timeoutMs;
+
+    public get enabled(): boolean {
+        return !!this.PROBE_URL;
+    }
+
+    /**
+     * Last result while it is fresh, otherwise a probe shared by concurrent callers
+     */
+    public validate(token: SpotifyToken, fresh = false): Promise<TokenValidation> {
+        const last = this.results.peek(token.accessToken);
+        if (!fresh && last && Date.now() - last.checkedAt < this.INTERVAL) {
+            return Promise.resolve(last);
+        }
+
+        return this.flights.run(token.accessToken, () => this.probe(token)).promise;
+    }
+
+    public lastResult(accessToken: string): TokenValidation | null {
+        return this.results.peek(accessToken) ?? null;
+    }
+
+    private async probe(token: SpotifyToken): Promise<TokenValidation> {
+        let result: TokenValidation;
+
+        try {
+            const response = await fetch(this.PROBE_URL!, {
+                headers: { accept: 'application/json', authorization: `Bearer ${token.accessToken}` },
+                signal: AbortSignal.timeout(this.TIMEOUT),
+            });
+            await response.body?.cancel();
+
+            result = {
+                valid: response.status === 401 ? false : response.ok ? true : null,
+                status: response.status,
+                checkedAt: Date.now(),
+                error: response.ok || response.status === 401 ? null : `Probe answered HTTP ${response.status}`,
+            };
+        } catch (error) {
+            const timedOut = error instanceof Error && error.name === 'TimeoutError';
+            result = {
+                valid: null,
+                status: null,
+                checkedAt: Date.now(),
+                error: timedOut ? `Probe did not answer within ${this.TIMEOUT}ms` : `Probe request failed: ${error instanceof Error ? error.message : error}`,
+            };
+        }
+
+        this.results.set(token.accessToken, result);
+        metrics.tokenValidations.inc({
+            type: token.isAnonymous ? 'anonymous' : 'authenticated',
+            outcome: result.valid === null ? 'error' : result.valid ? 'valid' : 'revoked',
+        });
+        if (result.valid === null) {
+            logs('warn', `Token validation probe failed - serving the cached token unchecked (${result.error})`);
+        }
+        return result;
+    }
+}
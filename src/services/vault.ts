@@ -0,0 +1,148 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { mkdirSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { Cookie } from '../types/types';
+import { getConfig } from '../config';
+import { readVaultFile, type EncryptedAccount, type VaultFile } from '../config/files';
+import { ConfigValidationError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { logs } from '../utils/logger';
+
+export interface VaultAccount {
+    name: string;
+    cookies: Cookie[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+const ACCOUNT_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Named Spotify accounts, encrypted at rest with AES-256-GCM
+ * The key is derived from VAULT_KEY with scrypt and a per-vault salt
+ */
+export class AccountVault {
+    private accounts = new Map<string, VaultAccount>();
+    private file: VaultFile | null = null;
+    private key: Buffer | null = null;
+
+    private readonly path = getConfig().vault.file;
+
+    constructor(secret = getConfig().vault.key) {
+        if (!secret) return;
+
+        this.file = this.readFile();
+        this.key = scryptSync(secret, Buffer.from(this.file.salt, 'base64'), 32);
+
+        for (const [name, encrypted] of Object.entries(this.file.accounts)) {
+            try {
+                this.accounts.set(name, {
+                    name,
+                    cookies: this.decrypt(encrypted),
+                    createdAt: encrypted.createdAt,
+                    updatedAt: encrypted.updatedAt,
+                });
+            } catch {
+                throw new ConfigValidationError('vault', [`cannot decrypt account "${name}" - is VAULT_KEY correct?`]);
+            }
+        }
+
+        logs('info', `Account vault loaded with ${this.accounts.size} account(s)`);
+    }
+
+    public get enabled(): boolean {
+        return this.key !== null;
+    }
+
+    public has(name: string): boolean {
+        return this.accounts.has(name);
+    }
+
+    public get(name: string): VaultAccount {
+        this.ensureEnabled();
+        const account = this.accounts.get(name);
+        if (!account) throw new NotFoundError(`Unknown account "${name}"`);
+        return account;
+    }
+
+    public list(): VaultAccount[] {
+        return [...this.accounts.values()];
+    }
+
+    public put(name: string, cookies: Cookie[]): VaultAccount {
+        this.ensureEnabled();
+        if (!ACCOUNT_NAME.test(name)) {
+            throw new Error('Account names may only contain letters, digits, "-" and "_" (max 64)');
+        }
+        if (!cookies.some(cookie => cookie.name === 'sp_dc' && cookie.value)) {
+            throw new Error('An sp_dc cookie is required');
+        }
+
+        const now = Date.now();
+        const account: VaultAccount = {
+            name,
+            cookies,
+            createdAt: this.accounts.get(name)?.createdAt ?? now,
+            updatedAt: now,
+        };
+
+        this.accounts.set(name, account);
+        this.persist();
+        return account;
+    }
+
+    public delete(name: string): boolean {
+        this.ensureEnabled();
+        const deleted = this.accounts.delete(name);
+        if (deleted) this.persist();
+        return deleted;
+    }
+
+    private ensureEnabled(): void {
+        if (!this.enabled) throw new ForbiddenError('Account vault is disabled - configure VAULT_KEY');
+    }
+
+    private readFile(): VaultFile {
+        return readVaultFile(this.path) ?? { version: 1, salt: randomBytes(16).toString('base64'), accounts: {} };
+    }
+
+    private persist(): void {
+        const file: VaultFile = {
+            version: 1,
+            salt: this.file!.salt,
+            accounts: {},
+        };
+
+        for (const account of this.accounts.values()) {
+            file.accounts[account.name] = {
+                ...this.encrypt(account.cookies),
+                createdAt: account.createdAt,
+                updatedAt: account.updatedAt,
+            };
+        }
+
+        mkdirSync(dirname(this.path), { recursive: true });
+        const tempPath = `${this.path}.${process.pid}.tmp`;
+        writeFileSync(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+        renameSync(tempPath, this.path);
+        this.file = file;
+    }
+
+    private encrypt(cookies: Cookie[]): Pick<EncryptedAccount, 'iv' | 'tag' | 'data'> {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', this.key!, iv);
+        const data = Buffer.concat([cipher.update(JSON.stringify(cookies), 'utf8'), cipher.final()]);
+
+        return {
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64'),
+        };
+    }
+
+    private decrypt(encrypted: EncryptedAccount): Cookie[] {
+        const decipher = createDecipheriv('aes-256-gcm', this.key!, Buffer.from(encrypted.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+        const data = Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()]);
+        return JSON.parse(data.toString('utf8')) as Cookie[];
+    }
+}
@@ -0,0 +1,192 @@
+import { createHmac } from 'node:crypto';
+import type { Spotify } from './spotify';
+import type { ServiceEvent, ServiceEventType, WebhookTarget } from '../types/types';
+import { getConfig } from '../config';
+import { readWebhooksFile } from '../config/files';
+import { logs } from '../utils/logger';
+import { backoffDelay } from '../utils/retry';
+
+interface Delivery {
+    id: string;
+    target: WebhookTarget;
+    event: ServiceEvent;
+    attempt: number;
+    nextAttemptAt: number;
+}
+
+/**
+ * Delivers service events to configured webhook targets
+ * Events are queued and sent in the background so a slow receiver never
+ * blocks the refresh path; failed deliveries are retried with backoff
+ */
+export class WebhookDispatcher {
+    private readonly targets: WebhookTarget[];
+    private queue: Delivery[] = [];
+    private active = 0;
+    private timer: NodeJS.Timeout | null = null;
+    private closed = false;
+    private readonly unsubscribe: () => void;
+
+    private readonly MAX_ATTEMPTS = getConfig().webhooks.maxAttempts;
+    private readonly TIMEOUT = getConfig().webhooks.timeoutMs;
+    private readonly BASE_DELAY = getConfig().webhooks.retryBaseDelayMs;
+    private readonly MAX_DELAY = getConfig().webhooks.retryMaxDelayMs;
+    private readonly QUEUE_SIZE = getConfig().webhooks.queueSize;
+    private readonly CONCURRENCY = 4;
+
+    constructor(tokenService: Spotify) {
+        this.targets = this.loadTargets();
+        this.unsubscribe = tokenService.onServiceEvent(event => this.enqueue(event));
+
+        if (this.targets.length > 0) {
+            logs('info', `Webhooks enabled for ${this.targets.length} target(s)`);
+        }
+    }
+
+    public enqueue(event: ServiceEvent): void {
+        if (this.closed) return;
+
+        for (const target of this.targets) {
+            if (!target.events.includes('*') && !target.events.includes(event.type)) continue;
+
+            if (this.queue.length >= this.QUEUE_SIZE) {
+                const dropped = this.queue.shift();
+                logs('warn', `Webhook queue full - dropping ${dropped?.event.type} delivery`);
+            }
+
+            this.queue.push({
+                id: crypto.randomUUID(),
+                target,
+                event,
+                attempt: 0,
+                nextAttemptAt: Date.now(),
+            });
+        }
+
+        this.pump();
+    }
+
+    public getStatus() {
+        return {
+            targets: this.targets.length,
+            queued: this.queue.length,
+            inFlight: this.active,
+        };
+    }
+
+    public close(): void {
+        this.closed = true;
+        this.unsubscribe();
+        this.queue = [];
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private pump(): void {
+        if (this.closed) return;
+
+        const now = Date.now();
+        while (this.active < this.CONCURRENCY) {
+            const index = this.queue.findIndex(delivery => delivery.nextAttemptAt <= now);
+            if (index === -1) break;
+
+            const [delivery] = this.queue.splice(index, 1);
+            this.active++;
+            void this.deliver(delivery!).finally(() => {
+                this.active--;
+                this.pump();
+            });
+        }
+
+        this.schedule();
+    }
+
+    private schedule(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.queue.length === 0) return;
+
+        const next = Math.min(...this.queue.map(delivery => delivery.nextAttemptAt));
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.pump();
+        }, Math.max(0, next - Date.now()));
+    }
+
+    private async deliver(delivery: Delivery): Promise<void> {
+        const body = JSON.stringify({ id: delivery.id, ...delivery.event });
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const headers: Record<string, string> = {
+            'content-type': 'application/json',
+            'user-agent': 'spotokn-webhooks',
+            'x-spotokn-event': delivery.event.type,
+            'x-spotokn-delivery': delivery.id,
+            'x-spotokn-timestamp': timestamp,
+        };
+
+        if (delivery.target.secret) {
+            const signature = createHmac('sha256', delivery.target.secret).update(`${timestamp}.${body}`).digest('hex');
+            headers['x-spotokn-signature'] = `sha256=${signature}`;
+        }
+
+        try {
+            const response = await fetch(delivery.target.url, {
+                method: 'POST',
+                headers,
+                body,
+                signal: AbortSignal.timeout(this.TIMEOUT),
+            });
+
+            if (response.ok) {
+                logs('debug', `Webhook ${delivery.event.type} delivered to ${this.describe(delivery.target)}`);
+                return;
+            }
+            this.retry(delivery, `HTTP ${response.status}`);
+        } catch (error) {
+            this.retry(delivery, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    private retry(delivery: Delivery, reason: string): void {
+        delivery.attempt++;
+
+        if (delivery.attempt >= this.MAX_ATTEMPTS || this.closed) {
+            logs('warn', `Webhook ${delivery.event.type} to ${this.describe(delivery.target)} failed permanently after ${delivery.attempt} attempt(s): ${reason}`);
+            return;
+        }
+
+        const delay = Math.max(this.BASE_DELAY, backoffDelay(delivery.attempt, this.BASE_DELAY, this.MAX_DELAY));
+        delivery.nextAttemptAt = Date.now() + delay;
+        this.queue.push(delivery);
+        logs('warn', `Webhook ${delivery.event.type} to ${this.describe(delivery.target)} failed (${reason}) - retrying in ${delay}ms`);
+    }
+
+    private describe(target: WebhookTarget): string {
+        try {
+            return new URL(target.url).host;
+        } catch {
+            return 'invalid url';
+        }
+    }
+
+    private loadTargets(): WebhookTarget[] {
+        const targets: WebhookTarget[] = [];
+
+        const { url, events, secret, file } = getConfig().webhooks;
+        if (url) {
+            targets.push({
+                url,
+                events: events as Array<ServiceEventType | '*'>,
+                secret,
+            });
+        }
+
+        if (file) targets.push(...readWebhooksFile(file));
+
+        return targets;
+    }
+}
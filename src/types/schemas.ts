@@ -0,0 +1,105 @@
+import { t } from 'elysia';
+
+export const RESPONSE_VERSION = 1 as const;
+
+const BooleanFlag = t.Union(
+    [t.Literal('true'), t.Literal('false'), t.Literal('1'), t.Literal('0')],
+    { error: 'Expected one of true, false, 1, 0' }
+);
+
+export const TokenQuery = t.Object({
+    force: t.Optional(BooleanFlag),
+    debug: t.Optional(BooleanFlag),
+    raw: t.Optional(BooleanFlag),
+    account: t.Optional(t.String({ description: 'Name of a vault account to get an authenticated token for' })),
+    api_key: t.Optional(t.String()),
+});
+
+export const CookiesInput = t.Union([
+    t.Record(t.String(), t.String()),
+    t.Array(t.Object({ name: t.String(), value: t.String() })),
+], { description: 'Cookies as a `{ name: value }` map or a `[{ name, value }]` list' });
+
+export const TokenBody = t.Object({
+    cookies: t.Optional(CookiesInput),
+    account: t.Optional(t.String()),
+    force: t.Optional(t.Boolean()),
+    raw: t.Optional(t.Boolean()),
+});
+
+export const TokenFeedbackBody = t.Object({
+    accessToken: t.String({ minLength: 1, description: 'The token that was rate limited' }),
+    reason: t.Literal('rate_limited'),
+});
+
+export const TokenIntrospectBody = t.Object({
+    accessToken: t.String({ minLength: 1, description: 'A token this service served' }),
+    validate: t.Optional(t.Boolean({ description: 'Probe the token now instead of reporting the last validation' })),
+});
+
+export const VaultAccountBody = t.Object({
+    spDc: t.Optional(t.String({ minLength: 1 })),
+    cookies: t.Optional(CookiesInput),
+});
+
+export const TokenSourceSchema = t.Union([
+    t.Literal('cache'),
+    t.Literal('fresh'),
+    t.Literal('forced'),
+    t.Literal('shared'),
+]);
+
+export const RawTokenResponse = t.Object({
+    accessToken: t.String(),
+    accessTokenExpirationTimestampMs: t.Number(),
+    clientId: t.String(),
+    isAnonymous: t.Boolean(),
+}, { description: 'Spotify token exactly as LavaSrc expects it (`?raw=true`)' });
+
+export const TokenResponse = t.Object({
+    success: t.Literal(true),
+    version: t.Literal(RESPONSE_VERSION),
+    accessToken: t.String(),
+    accessTokenExpirationTimestampMs: t.Number(),
+    clientId: t.String(),
+    isAnonymous: t.Boolean(),
+    provider: t.Union([t.String(), t.Null()], { description: 'Token provider that issued the token (`browser`, `http` or `static`)' }),
+    cached: t.Boolean(),
+    source: TokenSourceSchema,
+    expiresInMs: t.Number(),
+    timestamp: t.Number(),
+}, { description: 'Token envelope' });
+
+export const ServiceStatusResponse = t.Object({
+    hasAnonymousToken: t.Boolean(),
+    isRefreshing: t.Boolean(),
+}, { additionalProperties: true, description: 'Service internals (`?debug=true`)' });
+
+export const TokenIntrospectionResponse = t.Object({
+    success: t.Literal(true),
+    version: t.Literal(RESPONSE_VERSION),
+    clientId: t.String(),
+    isAnonymous: t.Boolean(),
+    provider: t.Union([t.String(), t.Null()]),
+    fetchedAt: t.Union([t.Number(), t.Null()], { description: 'When a token provider issued the token' }),
+    ageMs: t.Union([t.Number(), t.Null()]),
+    expiresAt: t.Number(),
+    remainingMs: t.Number(),
+    expired: t.Boolean(),
+    validation: t.Union([t.Object({
+        valid: t.Union([t.Boolean(), t.Null()], { description: '`false` when the probe answered 401, `null` when the probe failed' }),
+        status: t.Union([t.Number(), t.Null()]),
+        checkedAt: t.Number(),
+        error: t.Union([t.String(), t.Null()]),
+    }), t.Null()], { description: 'Last TOKEN_VALIDATION_URL probe, `null` when the token was never probed' }),
+    timestamp: t.Number(),
+}, { description: 'Token introspection' });
+
+export const ErrorResponse = t.Object({
+    success: t.Literal(false),
+    version: t.Literal(RESPONSE_VERSION),
+    error: t.String(),
+    details: t.Optional(t.String()),
+    retryAfter: t.Optional(t.Number()),
+    timestamp: t.Number(),
+});
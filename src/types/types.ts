@@ -3,9 +3,106 @@ export interface SpotifyToken {
     accessTokenExpirationTimestampMs: number;
     clientId: string;
     isAnonymous: boolean;
+    /** Name of the token provider that issued the token */
+    provider?: string;
+    /** When the token provider chain issued the token */
+    fetchedAt?: number;
 }
 
 export interface Cookie {
     name: string;
     value: string;
-}
\ No newline at end of file
+}
+
+export type TokenSource = 'cache' | 'fresh' | 'forced' | 'shared';
+
+export interface TokenResult {
+    token: SpotifyToken;
+    source: TokenSource;
+}
+
+export interface TokenRequestOptions {
+    force?: boolean;
+}
+
+/**
+ * A way of obtaining fresh tokens, tried in order as a fallback chain
+ */
+export interface TokenFetchOptions {
+    /** Fetches with the same session key share state with each other and nothing else */
+    session?: string;
+}
+
+export interface TokenProvider {
+    readonly name: string;
+    /** false when the provider can only issue anonymous tokens */
+    readonly supportsAccounts: boolean;
+    /** Anonymous token without an sp_dc cookie, authenticated token with one */
+    getToken(cookies?: Cookie[], options?: TokenFetchOptions): Promise<SpotifyToken>;
+    close(): Promise<void>;
+}
+
+export interface TokenProviderEntry {
+    provider: TokenProvider;
+    /** How long the chain waits for this provider before moving on */
+    timeoutMs: number;
+}
+
+export interface TokenStore {
+    readonly name: string;
+    get(key: string): Promise<SpotifyToken | null>;
+    set(key: string, token: SpotifyToken): Promise<void>;
+    delete(key: string): Promise<void>;
+    /** Returns a lock id when acquired, null when another owner holds the lock */
+    acquireLock(name: string, ttlMs: number): Promise<string | null>;
+    releaseLock(name: string, lockId: string): Promise<void>;
+    close(): Promise<void>;
+}
+
+export type RateLimitTier = 'anonymous' | 'authenticated';
+
+export type RateLimits = Record<RateLimitTier, number>;
+
+export interface ApiClient {
+    id: string;
+    name: string;
+    limits: RateLimits;
+    /** false when API keys are disabled and the client is identified by IP */
+    authenticated: boolean;
+    admin: boolean;
+    /** Cookies of the Spotify account registered for this key */
+    cookies?: Cookie[];
+    /** Vault accounts this key may request tokens for, `*` for all */
+    accounts?: string[];
+}
+
+export interface TokenRotationEvent {
+    type: 'anonymous' | 'authenticated';
+    /** Account hash for authenticated tokens */
+    account?: string;
+    token: SpotifyToken;
+    rotatedAt: number;
+}
+
+export type ServiceEventType =
+    | 'token.rotated'
+    | 'refresh.failing'
+    | 'refresh.recovered'
+    | 'browser.relaunched'
+    | 'browser.crashed'
+    | 'browser.recycled'
+    | 'account.invalid_cookie'
+    | 'token.revoked';
+
+export interface ServiceEvent {
+    type: ServiceEventType;
+    timestamp: number;
+    data: Record<string, unknown>;
+}
+
+export interface WebhookTarget {
+    url: string;
+    /** Event types to deliver, `*` for all */
+    events: Array<ServiceEventType | '*'>;
+    secret?: string;
+}
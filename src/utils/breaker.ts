@@ -0,0 +1,93 @@
+import { CircuitOpenError } from './errors';
+import { logs } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+    failureThreshold: number;
+    resetTimeoutMs: number;
+    /** Errors for which this returns false don't count against the circuit */
+    isFailure?: (error: unknown) => boolean;
+}
+
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt: number | null = null;
+    private probeInFlight = false;
+
+    constructor(private readonly name: string, private readonly options: CircuitBreakerOptions) { }
+
+    public async execute<T>(fn: () => Promise<T>): Promise<T> {
+        if (this.state === 'open') {
+            if (Date.now() < this.retryAt) throw new CircuitOpenError(this.retryAt);
+            this.transition('half_open');
+        }
+
+        // Only one probe passes while half-open, everything else fails fast
+        const probe = this.state === 'half_open';
+        if (probe) {
+            if (this.probeInFlight) throw new CircuitOpenError(this.retryAt);
+            this.probeInFlight = true;
+        }
+
+        try {
+            const result = await fn();
+            // Calls started before the circuit opened don't get to close it
+            if (probe || this.state === 'closed') this.onSuccess();
+            return result;
+        } catch (error) {
+            if (this.options.isFailure?.(error) ?? true) {
+                if (probe || this.state === 'closed') this.onFailure();
+            } else if (probe) {
+                this.onSuccess();
+            }
+            throw error;
+        } finally {
+            if (probe) this.probeInFlight = false;
+        }
+    }
+
+    public getStatus() {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            failureThreshold: this.options.failureThreshold,
+            openedAt: this.openedAt,
+            retryAt: this.state === 'closed' ? null : this.retryAt,
+        };
+    }
+
+    public get isOpen(): boolean {
+        return this.state !== 'closed';
+    }
+
+    private get retryAt(): number {
+        return (this.openedAt ?? Date.now()) + this.options.resetTimeoutMs;
+    }
+
+    private onSuccess(): void {
+        this.consecutiveFailures = 0;
+        if (this.state !== 'closed') this.transition('closed');
+    }
+
+    private onFailure(): void {
+        this.consecutiveFailures++;
+        if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+            this.transition('open');
+        }
+    }
+
+    private transition(next: CircuitState): void {
+        if (next === this.state && next !== 'open') return;
+
+        if (next === 'open') {
+            this.openedAt = Date.now();
+        } else if (next === 'closed') {
+            this.openedAt = null;
+        }
+
+        logs(next === 'open' ? 'warn' : 'info', `Circuit breaker "${this.name}" ${this.state} -> ${next}`);
+        this.state = next;
+    }
+}
@@ -0,0 +1,86 @@
+export type TokenFetchFailure =
+    | 'timeout'
+    | 'non_200'
+    | 'parse_error'
+    | 'navigation_failure'
+    | 'launch_failure'
+    | 'invalid_cookie'
+    | 'context_unavailable'
+    | 'unavailable';
+
+export class TokenFetchError extends Error {
+    constructor(
+        message: string,
+        public readonly reason: TokenFetchFailure,
+        public readonly status?: number
+    ) {
+        super(message);
+        this.name = 'TokenFetchError';
+    }
+}
+
+export function fetchFailureReason(error: unknown): TokenFetchFailure | 'error' {
+    return error instanceof TokenFetchError ? error.reason : 'error';
+}
+
+export class CircuitOpenError extends Error {
+    constructor(public readonly retryAt: number) {
+        super(`Circuit breaker is open until ${new Date(retryAt).toISOString()}`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+/**
+ * Timeouts, navigation/launch problems and 5xx responses are worth retrying,
+ * anything caused by the request itself (bad cookie, 4xx, malformed body) is not
+ */
+export function isRetryableFetchError(error: unknown): boolean {
+    if (!(error instanceof TokenFetchError)) return true;
+
+    switch (error.reason) {
+        case 'timeout':
+        case 'navigation_failure':
+        case 'launch_failure':
+        case 'context_unavailable':
+            return true;
+        case 'non_200':
+            return error.status === undefined || error.status >= 500 || error.status === 429;
+        default:
+            return false;
+    }
+}
+
+export class UnauthorizedError extends Error {
+    constructor(message = 'Missing or invalid API key') {
+        super(message);
+        this.name = 'UnauthorizedError';
+    }
+}
+
+export class ForbiddenError extends Error {
+    constructor(message = 'Insufficient permissions') {
+        super(message);
+        this.name = 'ForbiddenError';
+    }
+}
+
+export class RateLimitError extends Error {
+    constructor(public readonly retryAfterSeconds: number) {
+        super(`Rate limit exceeded - retry in ${retryAfterSeconds}s`);
+        this.name = 'RateLimitError';
+    }
+}
+
+export class NotFoundError extends Error {
+    constructor(message = 'Not found') {
+        super(message);
+        this.name = 'NotFoundError';
+    }
+}
+
+export class ConfigValidationError extends Error {
+    constructor(public readonly source: string, public readonly errors: string[]) {
+        super(`Invalid ${source}: ${errors.join('; ')}`);
+        this.name = 'ConfigValidationError';
+    }
+}
@@ -1,12 +1,141 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { getConfig, type Config } from '../config';
+
 type LogLevel = 'info' | 'warn' | 'error' | 'debug';
 
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+};
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose string values are always secrets
+const SECRET_KEYS = /^(access_?token|token|sp_dc|sp_key|cookie|cookies|authorization|api_?key|secret|password)$/i;
+
+// Secrets embedded in free-form text
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+    // `<sp_dc>`-style placeholders in usage hints are left alone
+    [/\b(sp_dc|sp_key)=(?!<[\w-]+>)[^;\s"']+/g, `$1=${REDACTED}`],
+    // Query parameters of logged URLs (`?api_key=`)
+    [/([?&](?:api_?key|access_?token|token)=)[^&#\s"']+/gi, `$1${REDACTED}`],
+    [/\bBearer\s+[\w.~+/-]+=*/gi, `Bearer ${REDACTED}`],
+    [/\b[AB]Q[A-Za-z0-9_-]{60,}/g, REDACTED],
+];
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+// Looked up per line rather than bound once, so console spies see log output
+let writeLine = (...lines: unknown[]) => console.log(...lines);
+
+let settings: { source: Config['logging']; minimumLevel: LogLevel; jsonFormat: boolean } | null = null;
+
+/**
+ * Resolved on first use, so logging never runs ahead of configuration validation,
+ * and again whenever initConfig installs a new configuration
+ * An invalid configuration falls back to info/text until startup reports it
+ */
+function logSettings() {
+    try {
+        const logging = getConfig().logging;
+        if (settings?.source !== logging) {
+            settings = { source: logging, minimumLevel: logging.level, jsonFormat: logging.format === 'json' };
+        }
+        return settings;
+    } catch {
+        return { minimumLevel: 'info' as LogLevel, jsonFormat: false };
+    }
+}
+
+/**
+ * Write log lines to stderr, keeping stdout free for command output (CLI)
+ */
+export function logToStderr(): void {
+    writeLine = (...lines) => console.error(...lines);
+}
+
+/**
+ * Attach a request ID to the current async execution, every log line written
+ * while handling the request (controller, service, browser) carries it
+ */
+export function enterRequestContext(requestId: string): void {
+    requestContext.enterWith({ requestId });
+}
+
+export function currentRequestId(): string | undefined {
+    return requestContext.getStore()?.requestId;
+}
+
+export function redactText(text: string): string {
+    return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+    if (depth > 6) return '[Truncated]';
+    if (typeof value === 'string') return redactText(value);
+
+    if (value instanceof Error) {
+        return { name: value.name, message: redactText(value.message) };
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => redact(item, depth + 1));
+    }
+
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        // Cookie-shaped objects ({ name, value }) never expose the value
+        const isCookie = typeof record.name === 'string' && 'value' in record;
+
+        return Object.fromEntries(Object.entries(record).map(([key, entry]) => {
+            if ((SECRET_KEYS.test(key) || (isCookie && key === 'value')) && typeof entry === 'string') {
+                return [key, REDACTED];
+            }
+            return [key, redact(entry, depth + 1)];
+        }));
+    }
+
+    return value;
+}
+
 export function logs(level: LogLevel, message: string, data?: unknown): void {
+    if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[logSettings().minimumLevel]) return;
+    write(level, message, data);
+}
+
+/**
+ * Audit trail of admin actions, written at every LOG_LEVEL so raising the
+ * level to cut noise never drops who did what
+ */
+export function audit(message: string, data: Record<string, unknown>): void {
+    write('audit', message, data);
+}
+
+function write(level: LogLevel | 'audit', message: string, data?: unknown): void {
+    const { jsonFormat } = logSettings();
     const timestamp = new Date().toISOString();
-    const prefix = `[${timestamp}] [${level.toUpperCase()}]`;
+    const requestId = currentRequestId();
+    const safeMessage = redactText(message);
+    const safeData = data !== undefined ? redact(data) : undefined;
+
+    if (jsonFormat) {
+        writeLine(JSON.stringify({
+            timestamp,
+            level,
+            message: safeMessage,
+            ...(requestId ? { requestId } : {}),
+            ...(safeData !== undefined ? { data: safeData } : {}),
+        }));
+        return;
+    }
+
+    const prefix = `[${timestamp}] [${level.toUpperCase()}]${requestId ? ` [${requestId}]` : ''}`;
 
-    if (data !== undefined) {
-        console.log(`${prefix} ${message}`, data);
+    if (safeData !== undefined) {
+        writeLine(`${prefix} ${safeMessage}`, safeData);
     } else {
-        console.log(`${prefix} ${message}`);
+        writeLine(`${prefix} ${safeMessage}`);
     }
-}
\ No newline at end of file
+}
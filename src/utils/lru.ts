@@ -0,0 +1,46 @@
+export class LRUCache<K, V> {
+    private readonly entries = new Map<K, V>();
+
+    constructor(private readonly maxSize: number) { }
+
+    get(key: K): V | undefined {
+        const value = this.entries.get(key);
+        if (value === undefined) return undefined;
+
+        // Re-insert to mark as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    peek(key: K): V | undefined {
+        return this.entries.get(key);
+    }
+
+    set(key: K, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+
+        while (this.entries.size > this.maxSize) {
+            const oldest = this.entries.keys().next();
+            if (oldest.done) break;
+            this.entries.delete(oldest.value);
+        }
+    }
+
+    delete(key: K): boolean {
+        return this.entries.delete(key);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+        return this.entries.entries();
+    }
+}
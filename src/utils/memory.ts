@@ -0,0 +1,46 @@
+import { readdirSync, readFileSync } from "node:fs";
+
+const PAGE_SIZE = 4096;
+
+/**
+ * Resident memory of this process and every descendant (Chromium, renderers) in bytes
+ * Falls back to this process alone where /proc is unavailable
+ */
+export function processTreeRss(): number {
+    try {
+        const children = new Map<number, number[]>();
+
+        for (const entry of readdirSync("/proc")) {
+            if (!/^\d+$/.test(entry)) continue;
+            try {
+                // The command name may contain spaces, fields start after the closing paren
+                const stat = readFileSync(`/proc/${entry}/stat`, "utf8");
+                const ppid = parseInt(stat.slice(stat.lastIndexOf(")") + 2).split(" ")[1] ?? "", 10);
+                const siblings = children.get(ppid) ?? [];
+                siblings.push(parseInt(entry, 10));
+                children.set(ppid, siblings);
+            } catch {
+                // Process exited while scanning
+            }
+        }
+
+        let total = 0;
+        const queue = [process.pid];
+        while (queue.length > 0) {
+            const pid = queue.pop()!;
+            total += residentPages(pid) * PAGE_SIZE;
+            queue.push(...(children.get(pid) ?? []));
+        }
+        return total;
+    } catch {
+        return process.memoryUsage().rss;
+    }
+}
+
+function residentPages(pid: number): number {
+    try {
+        return parseInt(readFileSync(`/proc/${pid}/statm`, "utf8").split(" ")[1] ?? "0", 10);
+    } catch {
+        return 0;
+    }
+}
@@ -0,0 +1,138 @@
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 15, 30];
+
+function labelKey(labels: Labels): string {
+    return Object.keys(labels)
+        .sort()
+        .map(name => `${name}="${String(labels[name]).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+        .join(',');
+}
+
+function formatLabels(key: string, extra?: string): string {
+    const parts = [key, extra].filter(Boolean).join(',');
+    return parts ? `{${parts}}` : '';
+}
+
+interface Metric {
+    render(): string;
+}
+
+export class Counter implements Metric {
+    private values = new Map<string, number>();
+
+    constructor(private readonly name: string, private readonly help: string) { }
+
+    inc(labels: Labels = {}, value = 1): void {
+        const key = labelKey(labels);
+        this.values.set(key, (this.values.get(key) ?? 0) + value);
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+        for (const [key, value] of this.values) {
+            lines.push(`${this.name}${formatLabels(key)} ${value}`);
+        }
+        return lines.join('\n');
+    }
+}
+
+export class Gauge implements Metric {
+    private values = new Map<string, number>();
+
+    constructor(private readonly name: string, private readonly help: string) { }
+
+    set(labels: Labels, value: number): void {
+        this.values.set(labelKey(labels), value);
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+        for (const [key, value] of this.values) {
+            lines.push(`${this.name}${formatLabels(key)} ${value}`);
+        }
+        return lines.join('\n');
+    }
+}
+
+export class Histogram implements Metric {
+    private series = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+    constructor(
+        private readonly name: string,
+        private readonly help: string,
+        private readonly buckets: number[] = DEFAULT_BUCKETS
+    ) { }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, series);
+        }
+
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) series.buckets[index]!++;
+        });
+        series.sum += value;
+        series.count++;
+    }
+
+    startTimer(labels: Labels = {}): (extra?: Labels) => void {
+        const start = performance.now();
+        return (extra = {}) => this.observe({ ...labels, ...extra }, (performance.now() - start) / 1000);
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const [key, series] of this.series) {
+            this.buckets.forEach((bound, index) => {
+                lines.push(`${this.name}_bucket${formatLabels(key, `le="${bound}"`)} ${series.buckets[index]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels(key, 'le="+Inf"')} ${series.count}`);
+            lines.push(`${this.name}_sum${formatLabels(key)} ${series.sum}`);
+            lines.push(`${this.name}_count${formatLabels(key)} ${series.count}`);
+        }
+        return lines.join('\n');
+    }
+}
+
+class MetricsRegistry {
+    private readonly metrics: Metric[] = [];
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    gauge(name: string, help: string): Gauge {
+        return this.register(new Gauge(name, help));
+    }
+
+    histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    render(): string {
+        return `${this.metrics.map(metric => metric.render()).join('\n\n')}\n`;
+    }
+
+    private register<T extends Metric>(metric: T): T {
+        this.metrics.push(metric);
+        return metric;
+    }
+}
+
+export const registry = new MetricsRegistry();
+
+export const metrics = {
+    tokenFetches: registry.counter('spotokn_token_fetches_total', 'Token fetches through the provider chain by token type and outcome'),
+    tokenFetchDuration: registry.histogram('spotokn_token_fetch_duration_seconds', 'Token fetch latency through the provider chain by token type and outcome'),
+    providerFetches: registry.counter('spotokn_token_provider_fetches_total', 'Token fetches per provider in the fallback chain by outcome'),
+    cacheLookups: registry.counter('spotokn_token_cache_lookups_total', 'Token cache lookups by token type and result (hit or miss)'),
+    proactiveRefreshes: registry.counter('spotokn_proactive_refresh_runs_total', 'Proactive token refresh runs by token type (anonymous or account) and outcome'),
+    tokenValidations: registry.counter('spotokn_token_validations_total', 'Cached token probes by token type and outcome (valid, revoked or error)'),
+    browserLaunches: registry.counter('spotokn_browser_launches_total', 'Browser launches by reason (initial, relaunch or recycle)'),
+    anonymousTokenTtl: registry.gauge('spotokn_anonymous_token_expiry_seconds', 'Seconds until the current anonymous token expires'),
+    httpRequests: registry.counter('spotokn_http_requests_total', 'HTTP requests by route, method and status'),
+};
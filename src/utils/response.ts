@@ -0,0 +1,37 @@
+import type { TokenResult } from '../types/types';
+import { RESPONSE_VERSION } from '../types/schemas';
+
+export function tokenResponse({ token, source }: TokenResult) {
+    return {
+        success: true as const,
+        version: RESPONSE_VERSION,
+        accessToken: token.accessToken,
+        accessTokenExpirationTimestampMs: token.accessTokenExpirationTimestampMs,
+        clientId: token.clientId,
+        isAnonymous: token.isAnonymous,
+        provider: token.provider ?? null,
+        cached: source === 'cache',
+        source,
+        expiresInMs: Math.max(0, token.accessTokenExpirationTimestampMs - Date.now()),
+        timestamp: Date.now(),
+    };
+}
+
+export function rawTokenResponse({ token }: TokenResult) {
+    return {
+        accessToken: token.accessToken,
+        accessTokenExpirationTimestampMs: token.accessTokenExpirationTimestampMs,
+        clientId: token.clientId,
+        isAnonymous: token.isAnonymous,
+    };
+}
+
+export function errorResponse(error: string, extra: { details?: string; retryAfter?: number } = {}) {
+    return {
+        success: false as const,
+        version: RESPONSE_VERSION,
+        error,
+        ...extra,
+        timestamp: Date.now(),
+    };
+}
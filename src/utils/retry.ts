@@ -0,0 +1,32 @@
+export interface RetryOptions {
+    attempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    isRetryable?: (error: unknown) => boolean;
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Exponential backoff with full jitter: delay = random(0, min(max, base * 2^attempt))
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+}
+
+export async function retry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+    const attempts = Math.max(1, options.attempts);
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn(attempt);
+        } catch (error) {
+            const retryable = options.isRetryable?.(error) ?? true;
+            if (!retryable || attempt >= attempts) throw error;
+
+            const delay = backoffDelay(attempt - 1, options.baseDelayMs, options.maxDelayMs);
+            options.onRetry?.(error, attempt, delay);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
@@ -0,0 +1,56 @@
+export interface Flight<T> {
+    promise: Promise<T>;
+    /** true when the caller joined a call that was already in flight */
+    shared: boolean;
+}
+
+/**
+ * Deduplicates concurrent async work per key
+ * Callers arriving while a call is in flight share its promise, and with it
+ * the same result or error, instead of starting another one
+ */
+export class SingleFlight<T> {
+    private flights = new Map<string, Promise<T>>();
+
+    public run(key: string, fn: () => Promise<T>): Flight<T> {
+        const existing = this.flights.get(key);
+        if (existing) return { promise: existing, shared: true };
+
+        const promise = fn().finally(() => {
+            if (this.flights.get(key) === promise) this.flights.delete(key);
+        });
+        this.flights.set(key, promise);
+        return { promise, shared: false };
+    }
+
+    public has(key: string): boolean {
+        return this.flights.has(key);
+    }
+
+    public keys(): string[] {
+        return [...this.flights.keys()];
+    }
+
+    public pending(): Promise<T>[] {
+        return [...this.flights.values()];
+    }
+}
+
+/**
+ * Bound how long a caller waits for a promise, the underlying work keeps running
+ */
+export function withDeadline<T>(promise: Promise<T>, timeoutMs: number, onTimeout: () => Error): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => reject(onTimeout()), timeoutMs);
+        promise.then(
+            (value) => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            (error) => {
+                clearTimeout(timer);
+                reject(error);
+            },
+        );
+    });
+}
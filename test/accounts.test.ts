@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { initConfig } from "../src/config";
+import { Spotify } from "../src/services/spotify";
+import type { Cookie } from "../src/types/types";
+import { GatedProvider, TEST_ENV, waitFor } from "./helpers";
+
+const account = (spDc: string): Cookie[] => [{ name: "sp_dc", value: spDc }];
+
+describe("per-account token cache", () => {
+    let provider: GatedProvider;
+    let service: Spotify;
+
+    async function start(env: Record<string, string> = {}): Promise<void> {
+        initConfig({ env: { ...TEST_ENV, ...env }, file: null });
+        provider = new GatedProvider();
+        provider.openGate();
+        service = new Spotify({ providers: [provider.entry()] });
+        await waitFor(() => service.getStatus().hasAnonymousToken, 1000, "the warm-up token");
+    }
+
+    afterEach(async () => {
+        provider.release();
+        await service.cleanup();
+    });
+
+    /** Provider fetches made for each sp_dc value */
+    const fetchesFor = (spDc: string) => provider.cookies.filter(cookies => cookies?.[0]?.value === spDc).length;
+
+    test("simultaneous requests for one account share a fetch, other accounts get their own token", async () => {
+        await start();
+        provider["open"] = false;
+
+        const alice = Promise.all(Array.from({ length: 10 }, () => service.getToken(account("alice"))));
+        const bob = service.getToken(account("bob"));
+        await waitFor(() => provider.pending === 2, 1000, "one fetch per account");
+        provider.openGate();
+
+        const aliceResults = await alice;
+        expect(new Set(aliceResults.map(result => result!.token.accessToken)).size).toBe(1);
+        expect(aliceResults.filter(result => result!.source === "fresh")).toHaveLength(1);
+        expect((await bob)!.token.accessToken).not.toBe(aliceResults[0]!.token.accessToken);
+        expect([fetchesFor("alice"), fetchesFor("bob")]).toEqual([1, 1]);
+
+        const cached = (await service.getToken(account("alice")))!;
+        expect(cached).toMatchObject({ source: "cache", token: { accessToken: aliceResults[0]!.token.accessToken } });
+        expect(fetchesFor("alice")).toBe(1);
+    });
+
+    test("a token inside ACCOUNT_EXPIRY_BUFFER is fetched again", async () => {
+        await start({ ACCOUNT_EXPIRY_BUFFER_MS: "60000" });
+        provider.ttlMs = 30_000;
+
+        const first = (await service.getToken(account("alice")))!;
+        const second = (await service.getToken(account("alice")))!;
+
+        expect(second.source).toBe("fresh");
+        expect(second.token.accessToken).not.toBe(first.token.accessToken);
+        expect(fetchesFor("alice")).toBe(2);
+    });
+
+    test("the least recently used account is evicted past ACCOUNT_CACHE_SIZE", async () => {
+        await start({ ACCOUNT_CACHE_SIZE: "2" });
+
+        await service.getToken(account("alice"));
+        await service.getToken(account("bob"));
+        // alice becomes the most recently used, so carol pushes bob out
+        await service.getToken(account("alice"));
+        await service.getToken(account("carol"));
+
+        // Evicted from the in-process cache; the token store may still hold it
+        const listed = (spDc: string) => service.getStatus().accounts.some(entry => entry.account === `${service["accountKey"](account(spDc)).slice(0, 12)}…`);
+        expect(service.getStatus().accounts).toHaveLength(2);
+        expect([listed("alice"), listed("bob"), listed("carol")]).toEqual([true, false, true]);
+    });
+
+    test("status lists cached accounts without their cookies", async () => {
+        await start();
+        await service.getToken(account("AQ-status-secret"));
+
+        const status = service.getStatus();
+
+        expect(status.accounts).toHaveLength(1);
+        expect(status.accounts[0]!.account).toMatch(/^[0-9a-f]{12}…$/);
+        expect(status.accounts[0]!.valid).toBe(true);
+        expect(JSON.stringify(status)).not.toContain("AQ-status-secret");
+    });
+});
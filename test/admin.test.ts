@@ -0,0 +1,71 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, spyOn, test, type Mock } from "bun:test";
+import { rmSync } from "node:fs";
+import { join } from "node:path";
+import { createTokenServer, type ApplicationServer } from "../src/app";
+import { GatedProvider, TEST_ENV, tempDir } from "./helpers";
+
+describe("admin audit trail", () => {
+    const dir = tempDir();
+    const provider = new GatedProvider();
+    let server: ApplicationServer;
+    let output: Mock<typeof console.log>;
+
+    beforeAll(() => {
+        provider.openGate();
+        server = createTokenServer({
+            config: {
+                env: {
+                    ...TEST_ENV,
+                    LOG_FORMAT: "json",
+                    ADMIN_API_KEYS: "admin-key",
+                    VAULT_KEY: "correct horse",
+                    VAULT_FILE: join(dir, "vault.json"),
+                },
+                file: null,
+            },
+            providers: [provider.entry()],
+        });
+    });
+
+    beforeEach(() => {
+        output = spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => output.mockRestore());
+
+    afterAll(async () => {
+        await server.shutdown();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    function admin(method: string, path: string, body?: object): Promise<Response> {
+        return server.handle(new Request(`http://localhost/admin${path}`, {
+            method,
+            headers: { authorization: "Bearer admin-key", "content-type": "application/json" },
+            body: body ? JSON.stringify(body) : undefined,
+        }));
+    }
+
+    function audits(action: string) {
+        return output.mock.calls
+            .map(call => JSON.parse(String(call[0])))
+            .filter(line => line.level === "audit" && line.data.action === action)
+            .map(line => line.data);
+    }
+
+    test("deleting an account is audited as a success", async () => {
+        expect((await admin("PUT", "/accounts/main", { spDc: "AQ-admin-test" })).status).toBe(200);
+
+        const response = await admin("DELETE", "/accounts/main");
+
+        expect(response.status).toBe(200);
+        expect(audits("accounts.delete")).toEqual([{ action: "accounts.delete", actor: "admin-1", account: "main", outcome: "success" }]);
+    });
+
+    test("a failed delete is audited before the error is answered", async () => {
+        const response = await admin("DELETE", "/accounts/missing");
+
+        expect(response.status).toBe(404);
+        expect(audits("accounts.delete")).toEqual([{ action: "accounts.delete", actor: "admin-1", account: "missing", outcome: "failure" }]);
+    });
+});
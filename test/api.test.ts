@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTokenServer, type ApplicationServer } from "../src/app";
+import { ErrorResponse, RawTokenResponse, TokenResponse } from "../src/types/schemas";
+import { GatedProvider, TEST_ENV, waitFor } from "./helpers";
+
+type TokenBody = typeof TokenResponse.static;
+type ErrorBody = typeof ErrorResponse.static;
+
+interface OpenApiDocument {
+    openapi: string;
+    paths: Record<string, Record<string, { responses: Record<string, unknown> }>>;
+}
+
+describe("response envelope and schemas", () => {
+    const provider = new GatedProvider();
+    let server: ApplicationServer;
+
+    beforeAll(async () => {
+        provider.openGate();
+        server = createTokenServer({ config: { env: TEST_ENV, file: null }, providers: [provider.entry()] });
+        await waitFor(() => server.tokenService.getStatus().hasAnonymousToken, 1000, "the warm-up token");
+    });
+
+    afterAll(() => server.shutdown());
+
+    async function call<T>(path: string, init?: RequestInit): Promise<{ status: number; body: T }> {
+        const response = await server.handle(new Request(`http://localhost${path}`, init));
+        return { status: response.status, body: await response.json() as T };
+    }
+
+    const post = (body: unknown): RequestInit => ({
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+    });
+
+    test("tokens come in the versioned envelope", async () => {
+        const { status, body } = await call<TokenBody>("/api/token");
+
+        expect(status).toBe(200);
+        expect(Object.keys(body).sort()).toEqual(Object.keys(TokenResponse.properties).sort());
+        expect(body).toMatchObject({ success: true, version: 1, cached: true, source: "cache", provider: "gated", isAnonymous: true });
+        expect(body.expiresInMs).toBe(body.accessTokenExpirationTimestampMs - body.timestamp);
+    });
+
+    test("raw mode returns the bare Spotify token for LavaSrc", async () => {
+        const fromQuery = await call<Record<string, unknown>>("/api/token?raw=true");
+        const fromBody = await call<Record<string, unknown>>("/api/token", post({ raw: true }));
+
+        for (const { status, body } of [fromQuery, fromBody]) {
+            expect(status).toBe(200);
+            expect(Object.keys(body).sort()).toEqual(Object.keys(RawTokenResponse.properties).sort());
+        }
+    });
+
+    test.each([
+        ["an unknown flag value", "/api/token?force=maybe", undefined, "Expected one of true, false, 1, 0"],
+        ["a malformed body", "/api/token", post({ cookies: 5 }), "cookies"],
+        ["a missing required field", "/api/token/introspect", post({}), "accessToken"],
+    ])("%s is rejected with the error envelope", async (_case, path, init, detail) => {
+        const { status, body } = await call<ErrorBody>(path, init);
+
+        expect(status).toBe(400);
+        expect(body).toMatchObject({ success: false, version: 1, error: "Request validation failed" });
+        expect(body.details).toContain(detail);
+    });
+
+    test("/docs serves the OpenAPI document of the routes", async () => {
+        const page = await server.handle(new Request("http://localhost/docs"));
+        expect(page.status).toBe(200);
+        expect(page.headers.get("content-type")).toContain("text/html");
+
+        const { status, body } = await call<OpenApiDocument>("/docs/json");
+        expect(status).toBe(200);
+        expect(body.openapi).toStartWith("3.");
+        expect(Object.keys(body.paths["/api/token"] ?? {}).sort()).toEqual(["get", "post"]);
+        expect(Object.keys(body.paths["/api/token"]!.get!.responses)).toEqual(expect.arrayContaining(["200", "400", "503"]));
+        // Docs requests finish like any other, so they never hold up a graceful shutdown
+        await waitFor(() => server["inFlightRequests"].size === 0, 1000, "the docs requests to finish");
+    });
+});
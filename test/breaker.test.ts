@@ -0,0 +1,105 @@
+import { afterEach, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import { initConfig } from "../src/config";
+import { CircuitBreaker } from "../src/utils/breaker";
+import { CircuitOpenError, TokenFetchError } from "../src/utils/errors";
+import { TEST_ENV } from "./helpers";
+
+const START = new Date("2026-01-01T00:00:00Z");
+
+describe("CircuitBreaker", () => {
+    beforeAll(() => initConfig({ env: TEST_ENV, file: null }));
+    afterEach(() => setSystemTime());
+
+    function breaker() {
+        setSystemTime(START);
+        return new CircuitBreaker("test", {
+            failureThreshold: 3,
+            resetTimeoutMs: 10_000,
+            isFailure: error => !(error instanceof TokenFetchError && error.reason === "invalid_cookie"),
+        });
+    }
+
+    const fail = () => Promise.reject(new TokenFetchError("down", "timeout"));
+    const succeed = () => Promise.resolve("ok");
+    const outcome = (promise: Promise<unknown>) => promise.then(() => null, (error: unknown) => error);
+
+    async function open(circuit: CircuitBreaker) {
+        for (let i = 0; i < 3; i++) await outcome(circuit.execute(fail));
+    }
+
+    test("opens after the failure threshold and fails fast while open", async () => {
+        const circuit = breaker();
+        await outcome(circuit.execute(fail));
+        await outcome(circuit.execute(fail));
+        expect(circuit.getStatus()).toMatchObject({ state: "closed", consecutiveFailures: 2 });
+
+        await outcome(circuit.execute(fail));
+        expect(circuit.getStatus()).toMatchObject({ state: "open", openedAt: START.getTime(), retryAt: START.getTime() + 10_000 });
+
+        let called = false;
+        const error = await outcome(circuit.execute(() => { called = true; return succeed(); }));
+        expect(error).toBeInstanceOf(CircuitOpenError);
+        expect((error as CircuitOpenError).retryAt).toBe(START.getTime() + 10_000);
+        expect(called).toBe(false);
+    });
+
+    test("a success resets the failure count", async () => {
+        const circuit = breaker();
+        await outcome(circuit.execute(fail));
+        await outcome(circuit.execute(fail));
+        await circuit.execute(succeed);
+        await outcome(circuit.execute(fail));
+
+        expect(circuit.getStatus()).toMatchObject({ state: "closed", consecutiveFailures: 1 });
+    });
+
+    test("errors excluded by isFailure never open the circuit", async () => {
+        const circuit = breaker();
+        for (let i = 0; i < 5; i++) {
+            await outcome(circuit.execute(() => Promise.reject(new TokenFetchError("rejected", "invalid_cookie"))));
+        }
+
+        expect(circuit.getStatus()).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+    });
+
+    test("after the reset timeout one probe is let through and its success closes the circuit", async () => {
+        const circuit = breaker();
+        await open(circuit);
+        setSystemTime(new Date(START.getTime() + 10_000));
+
+        let finishProbe!: (value: string) => void;
+        const probe = circuit.execute(() => new Promise<string>(resolve => { finishProbe = resolve; }));
+        expect(circuit.getStatus().state).toBe("half_open");
+
+        // Everything else still fails fast while the probe runs
+        expect(await outcome(circuit.execute(succeed))).toBeInstanceOf(CircuitOpenError);
+
+        finishProbe("ok");
+        expect(await probe).toBe("ok");
+        expect(circuit.getStatus()).toMatchObject({ state: "closed", consecutiveFailures: 0, openedAt: null, retryAt: null });
+        expect(await circuit.execute(succeed)).toBe("ok");
+    });
+
+    test("a failed probe opens the circuit for another reset timeout", async () => {
+        const circuit = breaker();
+        await open(circuit);
+        const probeAt = START.getTime() + 15_000;
+        setSystemTime(new Date(probeAt));
+
+        await outcome(circuit.execute(fail));
+
+        expect(circuit.getStatus()).toMatchObject({ state: "open", openedAt: probeAt, retryAt: probeAt + 10_000 });
+        expect(await outcome(circuit.execute(succeed))).toBeInstanceOf(CircuitOpenError);
+    });
+
+    test("calls started before the circuit opened don't close it", async () => {
+        const circuit = breaker();
+        let finishSlow!: (value: string) => void;
+        const slow = circuit.execute(() => new Promise<string>(resolve => { finishSlow = resolve; }));
+        await open(circuit);
+
+        finishSlow("late");
+        expect(await slow).toBe("late");
+        expect(circuit.getStatus().state).toBe("open");
+    });
+});
@@ -0,0 +1,181 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Server } from "bun";
+import { TEST_ENV, tempDir } from "./helpers";
+
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+
+interface CliResult {
+    code: number;
+    stdout: string;
+    stderr: string;
+}
+
+describe("spotokn CLI", () => {
+    const dir = tempDir();
+    let server: Server<undefined>;
+    const hits: Record<string, number> = {};
+    const cookieHeaders: Array<string | null> = [];
+
+    beforeAll(() => {
+        // Token endpoint for the http provider: answers like Spotify, or fails on purpose
+        server = Bun.serve({
+            port: 0,
+            fetch: async (request) => {
+                const path = new URL(request.url).pathname;
+                hits[path] = (hits[path] ?? 0) + 1;
+                cookieHeaders.push(request.headers.get("cookie"));
+
+                switch (path) {
+                    case "/broken":
+                        return new Response("down", { status: 500 });
+                    case "/slow":
+                        await Bun.sleep(2000);
+                        break;
+                }
+                const cookie = request.headers.get("cookie") ?? "";
+                return Response.json({
+                    clientId: "cli-client",
+                    accessToken: `cli-token-${hits[path]}`,
+                    accessTokenExpirationTimestampMs: Date.now() + 3600000,
+                    // /anonymous ignores cookies, as Spotify does with a rejected sp_dc
+                    isAnonymous: path === "/anonymous" || !cookie.includes("sp_dc="),
+                });
+            },
+        });
+    });
+
+    afterAll(() => {
+        server.stop(true);
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function cli(args: string[], env: Record<string, string> = {}): Promise<CliResult> {
+        const child = Bun.spawn(["bun", CLI, ...args], {
+            env: {
+                PATH: process.env.PATH ?? "",
+                ...TEST_ENV,
+                TOKEN_PROVIDERS: "http",
+                HTTP_PROVIDER_URL: `http://localhost:${server.port}/token`,
+                FETCH_RETRY_BASE_DELAY_MS: "1",
+                ...env,
+            },
+            stdout: "pipe",
+            stderr: "pipe",
+        });
+        const [stdout, stderr, code] = await Promise.all([new Response(child.stdout).text(), new Response(child.stderr).text(), child.exited]);
+        return { code, stdout, stderr };
+    }
+
+    function cookieFile(name: string, content: string): string {
+        const path = join(dir, name);
+        writeFileSync(path, content);
+        return path;
+    }
+
+    describe("cookie files", () => {
+        const formats: Array<[string, string]> = [
+            ["a JSON browser export", JSON.stringify([
+                { name: "sp_dc", value: "from-json=", domain: ".spotify.com" },
+                { name: "sp_dc", value: "other-site", domain: ".example.com" },
+            ])],
+            ["a JSON map", JSON.stringify({ sp_dc: "from-json=" })],
+            ["a Netscape cookies.txt", [
+                "# Netscape HTTP Cookie File",
+                "#HttpOnly_.spotify.com\tTRUE\t/\tTRUE\t1999999999\tsp_dc\tfrom-json=",
+                ".example.com\tTRUE\t/\tFALSE\t1999999999\tsp_dc\tother-site",
+            ].join("\n")],
+            ["a Cookie header", "theme=dark; sp_dc=from-json="],
+        ];
+
+        test.each(formats)("reads sp_dc from %s", async (_format, content) => {
+            const result = await cli(["token", "--cookie-file", cookieFile("cookies", content)]);
+
+            expect(result.code).toBe(0);
+            expect(JSON.parse(result.stdout).isAnonymous).toBe(false);
+            expect(cookieHeaders.at(-1)).toContain("sp_dc=from-json=");
+            expect(cookieHeaders.at(-1)).not.toContain("other-site");
+        });
+
+        test.each([
+            ["a null entry", "[null, { \"name\": \"sp_dc\", \"value\": \"x\" }]"],
+            ["a nested list", "[[\"sp_dc\", \"x\"]]"],
+            ["invalid JSON", "[{ \"name\": "],
+            ["no sp_dc cookie", "theme=dark"],
+        ])("rejects %s as bad input", async (_problem, content) => {
+            const result = await cli(["token", "--cookie-file", cookieFile("bad-cookies", content)]);
+
+            expect(result.code).toBe(2);
+            expect(result.stderr).not.toContain("TypeError");
+            expect(result.stderr).toContain("Usage:");
+        });
+    });
+
+    describe("exit codes", () => {
+        test("0 prints the token in the requested format", async () => {
+            const result = await cli(["token", "--format", "env"]);
+
+            expect(result.code).toBe(0);
+            expect(result.stdout).toContain("SPOTIFY_CLIENT_ID=cli-client");
+            expect(result.stdout).toContain("SPOTIFY_TOKEN_ANONYMOUS=true");
+        });
+
+        test("1 for a failing token endpoint, after every retry", async () => {
+            const before = hits["/broken"] ?? 0;
+            const result = await cli(["token"], {
+                HTTP_PROVIDER_URL: `http://localhost:${server.port}/broken`,
+                FETCH_RETRY_ATTEMPTS: "3",
+            });
+
+            expect(result.code).toBe(1);
+            expect(result.stderr).toContain("HTTP 500");
+            expect(hits["/broken"]! - before).toBe(3);
+        });
+
+        test("2 for usage and configuration errors", async () => {
+            expect((await cli(["token", "--format", "xml"])).code).toBe(2);
+            expect((await cli(["token", "--sp-dc", "a", "--cookie-file", "b"])).code).toBe(2);
+            expect((await cli(["frobnicate"])).code).toBe(2);
+
+            const invalid = await cli(["token"], { TOKEN_PROVIDERS: "carrier-pigeon" });
+            expect(invalid.code).toBe(2);
+            expect(invalid.stderr).toContain("TOKEN_PROVIDERS");
+        });
+
+        test("3 when --timeout passes first", async () => {
+            const result = await cli(["token", "--timeout", "300"], { HTTP_PROVIDER_URL: `http://localhost:${server.port}/slow` });
+
+            expect(result.code).toBe(3);
+        });
+
+        test("4 when Spotify ignores the sp_dc cookie", async () => {
+            const before = hits["/anonymous"] ?? 0;
+            const result = await cli(["token", "--sp-dc", "revoked"], {
+                HTTP_PROVIDER_URL: `http://localhost:${server.port}/anonymous`,
+                FETCH_RETRY_ATTEMPTS: "3",
+            });
+
+            expect(result.code).toBe(4);
+            // A rejected cookie is never retried
+            expect(hits["/anonymous"]! - before).toBe(1);
+        });
+
+        test("5 when the browser cannot be launched", async () => {
+            const result = await cli(["token"], {
+                TOKEN_PROVIDERS: "browser",
+                BROWSER_PATH: join(dir, "no-such-browser"),
+                FETCH_RETRY_ATTEMPTS: "1",
+            });
+
+            expect(result.code).toBe(5);
+        });
+
+        test("6 when the server is not reachable", async () => {
+            const result = await cli(["status", "--url", "http://127.0.0.1:9"]);
+
+            expect(result.code).toBe(6);
+            expect(result.stderr).toContain("not reachable");
+        });
+    });
+});
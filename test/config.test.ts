@@ -0,0 +1,180 @@
+import { afterAll, afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createTokenServer, type ApplicationServer } from "../src/app";
+import { describeConfig, getConfig, initConfig, loadConfig } from "../src/config";
+import { ConfigValidationError } from "../src/utils/errors";
+import { GatedProvider, TEST_ENV, tempDir } from "./helpers";
+
+const SECRETS = {
+    API_KEYS: "key-secret-1,key-secret-2",
+    ADMIN_API_KEYS: "admin-secret",
+    REDIS_URL: "redis://:redis-secret@cache:6379",
+    WEBHOOK_URL: "https://hooks.example.com/webhook-secret",
+    WEBHOOK_SECRET: "signing-secret",
+};
+
+describe("configuration", () => {
+    const dir = tempDir();
+    let path: string;
+    let run = 0;
+
+    beforeEach(() => {
+        path = join(dir, `config-${++run}.json`);
+    });
+
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    function configFile(values: unknown): string {
+        writeFileSync(path, JSON.stringify(values));
+        return path;
+    }
+
+    /** Problems reported by loadConfig, empty when it succeeds */
+    function problems(env: Record<string, string>, file: string | null = null): string[] {
+        try {
+            loadConfig({ env: { ...TEST_ENV, ...env }, file });
+            return [];
+        } catch (error) {
+            expect(error).toBeInstanceOf(ConfigValidationError);
+            return (error as ConfigValidationError).errors;
+        }
+    }
+
+    test("env vars win over the config file, which wins over the defaults", () => {
+        const file = configFile({ server: { port: 4000, shutdownGracePeriodMs: 5000 }, rateLimit: { anonymous: 50 } });
+
+        const { config, sources } = loadConfig({ env: { ...TEST_ENV, PORT: "5000", RATE_LIMIT_ANONYMOUS: " " }, file });
+
+        expect(config.server).toEqual({ port: 5000, shutdownGracePeriodMs: 5000 });
+        // A blank env var counts as unset
+        expect(config.rateLimit.anonymous).toBe(50);
+        expect(config.rateLimit.authenticated).toBe(10);
+        expect(sources).toMatchObject({
+            "server.port": "env",
+            "server.shutdownGracePeriodMs": "file",
+            "rateLimit.anonymous": "file",
+            "rateLimit.authenticated": "default",
+        });
+    });
+
+    test("every problem is reported at once, naming the setting and where its value came from", () => {
+        const file = configFile({ server: { port: "eighty" }, logging: "verbose", rateLimit: { burst: 5 } });
+
+        expect(problems({ LOG_FORMAT: "xml", RATE_LIMIT_PER_IP: "maybe" }, file)).toEqual([
+            'server.port (config file): expected an integer between 1 and 65535, got "eighty"',
+            "logging (config file): expected an object",
+            "logging.format (LOG_FORMAT): expected one of text, json, got \"xml\"",
+            'rateLimit.perIp (RATE_LIMIT_PER_IP): expected true or false, got "maybe"',
+            "rateLimit.burst (config file): unknown setting",
+        ]);
+    });
+
+    test.each([
+        ["not JSON", "{ port: 3000"],
+        ["not an object", "[1, 2, 3]"],
+    ])("a config file that is %s is rejected", (_case, contents) => {
+        writeFileSync(path, contents);
+
+        const [problem, ...rest] = problems({}, path);
+
+        expect(problem).toStartWith(`config file ${path}: `);
+        expect(rest).toEqual([]);
+    });
+
+    test("a missing config file is rejected", () => {
+        expect(problems({}, join(dir, "missing.json"))).toEqual([expect.stringContaining("ENOENT")]);
+    });
+
+    test.each([
+        [{ TOKEN_PROVIDERS: "http" }, "providers.httpUrl (HTTP_PROVIDER_URL) is required when the http provider is enabled"],
+        [{ FETCH_RETRY_BASE_DELAY_MS: "5000", FETCH_RETRY_MAX_DELAY_MS: "1000" }, "retry.maxDelayMs (FETCH_RETRY_MAX_DELAY_MS) must not be below retry.baseDelayMs"],
+        [{ WEBHOOK_RETRY_BASE_DELAY_MS: "5000", WEBHOOK_RETRY_MAX_DELAY_MS: "1000" }, "webhooks.retryMaxDelayMs (WEBHOOK_RETRY_MAX_DELAY_MS) must not be below webhooks.retryBaseDelayMs"],
+    ])("settings are checked against each other: %o", (env, problem) => {
+        expect(problems(env)).toEqual([problem]);
+    });
+
+    test("a failed load keeps the previous configuration", () => {
+        const current = initConfig({ env: { ...TEST_ENV, PORT: "4321" }, file: null });
+
+        expect(() => initConfig({ env: { ...TEST_ENV, PORT: "0" }, file: null })).toThrow(ConfigValidationError);
+        expect(getConfig()).toBe(current);
+        expect(getConfig().server.port).toBe(4321);
+    });
+
+    test("secret values never appear in validation errors", () => {
+        const file = configFile({ store: { redisUrl: { password: "file-secret" } }, auth: { apiKeys: { key: "file-secret" } } });
+
+        const reported = problems({ WEBHOOK_URL: "not a url webhook-secret" }, file);
+
+        expect(reported).toHaveLength(3);
+        expect(reported.join("\n")).not.toContain("file-secret");
+        expect(reported.join("\n")).not.toContain("webhook-secret");
+    });
+
+    test("describeConfig redacts secrets and lists the settings that were changed", () => {
+        initConfig({ env: { ...TEST_ENV, ...SECRETS, PORT: "4000" }, file: configFile({ logging: { format: "json" } }) });
+
+        const described = describeConfig();
+        const dump = JSON.stringify(described);
+
+        expect(described.file).toBe(path);
+        expect(described.config.auth).toMatchObject({ apiKeys: "[REDACTED]", adminApiKeys: "[REDACTED]" });
+        expect(described.config.store).toMatchObject({ redisUrl: "[REDACTED]" });
+        expect(described.config.webhooks).toMatchObject({ url: "[REDACTED]", secret: "[REDACTED]" });
+        for (const secret of ["key-secret-1", "admin-secret", "redis-secret", "webhook-secret", "signing-secret"]) {
+            expect(dump).not.toContain(secret);
+        }
+        expect(described.config.server).toMatchObject({ port: 4000 });
+        expect(described.sources).toMatchObject({ "server.port": "env", "logging.format": "file", "auth.apiKeys": "env" });
+        expect(Object.values(described.sources)).not.toContain("default");
+    });
+
+    test("unset secrets are shown as empty rather than redacted", () => {
+        initConfig({ env: TEST_ENV, file: null });
+
+        const { config } = describeConfig();
+
+        expect(config.auth).toMatchObject({ apiKeys: [], adminApiKeys: [] });
+        expect(config.webhooks).toMatchObject({ url: null, secret: null });
+    });
+});
+
+describe("GET /api/config", () => {
+    let server: ApplicationServer;
+
+    afterEach(() => server.shutdown());
+
+    function start(env: Record<string, string>): void {
+        const provider = new GatedProvider();
+        provider.openGate();
+        server = createTokenServer({ config: { env: { ...TEST_ENV, ...env }, file: null }, providers: [provider.entry()] });
+    }
+
+    const get = (headers: Record<string, string> = {}) => server.handle(new Request("http://localhost/api/config", { headers }));
+
+    test("serves the redacted configuration", async () => {
+        start({ API_KEYS: "key-secret-1", WEBHOOK_SECRET: "signing-secret", PORT: "4000" });
+
+        const response = await get({ authorization: "Bearer key-secret-1" });
+        const text = await response.text();
+
+        expect(response.status).toBe(200);
+        expect(JSON.parse(text)).toMatchObject({
+            success: true,
+            version: 1,
+            file: null,
+            config: { auth: { apiKeys: "[REDACTED]" }, server: { port: 4000 } },
+            sources: { "server.port": "env" },
+        });
+        expect(text).not.toContain("key-secret-1");
+        expect(text).not.toContain("signing-secret");
+    });
+
+    test("requires an API key when keys are configured", async () => {
+        start({ API_KEYS: "key-secret-1" });
+
+        expect((await get()).status).toBe(401);
+        expect((await get({ authorization: "Bearer wrong-key" })).status).toBe(401);
+    });
+});
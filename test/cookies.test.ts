@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTokenServer, type ApplicationServer } from "../src/app";
+import type { TokenResponse } from "../src/types/schemas";
+import type { Cookie } from "../src/types/types";
+import { GatedProvider, TEST_ENV } from "./helpers";
+
+// Base64 padding and a `=` in the middle, as real sp_dc values can have
+const SP_DC = "AQC9x_A=b-c==";
+
+describe("sp_dc cookies on /api/token", () => {
+    let provider: GatedProvider;
+    let server: ApplicationServer;
+
+    beforeAll(() => {
+        provider = new GatedProvider();
+        provider.openGate();
+        server = createTokenServer({ config: { env: TEST_ENV, file: null }, providers: [provider.entry()] });
+    });
+
+    afterAll(() => server.shutdown());
+
+    // Each test uses its own sp_dc value so cached account tokens never hide a fetch
+    async function fetchedWith(request: Request): Promise<Cookie[] | undefined> {
+        const before = provider.cookies.length;
+        const response = await server.handle(request);
+        expect(response.status).toBe(200);
+        expect((await response.json() as typeof TokenResponse.static).isAnonymous).toBe(false);
+        expect(provider.cookies.length).toBe(before + 1);
+        return provider.cookies.at(-1);
+    }
+
+    const spDc = (cookies: Cookie[] | undefined) => cookies?.find(cookie => cookie.name === "sp_dc")?.value;
+
+    test("GET keeps every `=` after the first in the Cookie header", async () => {
+        const cookies = await fetchedWith(new Request("http://localhost/api/token", {
+            headers: { cookie: `theme=dark; sp_dc=${SP_DC}; sp_key=k=1` },
+        }));
+
+        expect(spDc(cookies)).toBe(SP_DC);
+        expect(cookies?.find(cookie => cookie.name === "sp_key")?.value).toBe("k=1");
+    });
+
+    test("GET decodes percent-encoded values", async () => {
+        const cookies = await fetchedWith(new Request("http://localhost/api/token", {
+            headers: { cookie: `sp_dc=${encodeURIComponent(`${SP_DC}encoded`)}` },
+        }));
+
+        expect(spDc(cookies)).toBe(`${SP_DC}encoded`);
+    });
+
+    test("POST accepts a cookie map", async () => {
+        const cookies = await fetchedWith(new Request("http://localhost/api/token", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ cookies: { sp_dc: `${SP_DC}map` } }),
+        }));
+
+        expect(spDc(cookies)).toBe(`${SP_DC}map`);
+    });
+
+    test("POST accepts a cookie list", async () => {
+        const cookies = await fetchedWith(new Request("http://localhost/api/token", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ cookies: [{ name: "sp_dc", value: `${SP_DC}list` }, { name: "empty", value: "" }] }),
+        }));
+
+        expect(cookies).toEqual([{ name: "sp_dc", value: `${SP_DC}list` }]);
+    });
+
+    test("a Cookie header without sp_dc gets the anonymous token", async () => {
+        const response = await server.handle(new Request("http://localhost/api/token", {
+            headers: { cookie: "theme=dark; flag" },
+        }));
+
+        expect(response.status).toBe(200);
+        expect((await response.json() as typeof TokenResponse.static).isAnonymous).toBe(true);
+    });
+});
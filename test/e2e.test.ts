@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { chromium } from "playwright";
+import { createTokenServer, type ApplicationServer } from "../src/app";
+import { startStandin, type Standin, type StandinMode } from "../src/dev/standin";
+import type { ErrorResponse, TokenResponse } from "../src/types/schemas";
+import { TEST_ENV } from "./helpers";
+
+type TokenBody = typeof TokenResponse.static;
+type ErrorBody = typeof ErrorResponse.static;
+
+// Headless Chromium is needed for the real browser path, without it there is nothing to exercise
+const browserPath = process.env.BROWSER_PATH || chromium.executablePath();
+const hasChromium = existsSync(browserPath);
+
+describe.skipIf(!hasChromium)("GET /api/token against the stand-in", () => {
+    let standin: Standin;
+    let server: ApplicationServer;
+
+    beforeAll(() => {
+        standin = startStandin({ slowDelayMs: 500 });
+        server = createTokenServer({
+            config: {
+                env: {
+                    ...TEST_ENV,
+                    BROWSER_PATH: browserPath,
+                    SPOTIFY_ORIGIN: standin.url,
+                    BROWSER_FETCH_TIMEOUT_MS: "2000",
+                    FETCH_RETRY_ATTEMPTS: "1",
+                    FORCE_REFRESH_COOLDOWN_MS: "0",
+                    BREAKER_FAILURE_THRESHOLD: "100",
+                },
+                file: null,
+            },
+        });
+    });
+
+    afterAll(async () => {
+        await server.shutdown();
+        await standin.stop();
+    });
+
+    // Forced, so every mode gets a fetch of its own instead of the cached token
+    async function fetchToken<T extends TokenBody | ErrorBody>(mode: StandinMode) {
+        standin.setMode(mode);
+        const before = standin.tokenRequests;
+        const response = await server.handle(new Request("http://localhost/api/token?force=true"));
+        return { status: response.status, body: await response.json() as T, requests: standin.tokenRequests - before };
+    }
+
+    test("success returns the stand-in token", async () => {
+        const { status, body, requests } = await fetchToken<TokenBody>("success");
+
+        expect(status).toBe(200);
+        expect(body.success).toBe(true);
+        expect(body.accessToken).toStartWith("standin-anon-");
+        expect(body.isAnonymous).toBe(true);
+        expect(body.provider).toBe("browser");
+        expect(requests).toBe(1);
+    }, 30000);
+
+    test("a non-200 token endpoint answers 503 non_200", async () => {
+        const { status, body } = await fetchToken<ErrorBody>("error");
+
+        expect(status).toBe(503);
+        expect(body.success).toBe(false);
+        expect(body.details).toBe("non_200");
+    }, 30000);
+
+    test("a malformed token body answers 503 parse_error", async () => {
+        const { status, body } = await fetchToken<ErrorBody>("malformed");
+
+        expect(status).toBe(503);
+        expect(body.details).toBe("parse_error");
+    }, 30000);
+
+    test("a slow token endpoint within the fetch timeout still succeeds", async () => {
+        const startedAt = Date.now();
+        const { status, body } = await fetchToken<TokenBody>("slow");
+
+        expect(status).toBe(200);
+        expect(body.accessToken).toStartWith("standin-anon-");
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(500);
+    }, 30000);
+
+    test("a hanging token endpoint answers 503 timeout after BROWSER_FETCH_TIMEOUT_MS", async () => {
+        const startedAt = Date.now();
+        const { status, body } = await fetchToken<ErrorBody>("hang");
+
+        expect(status).toBe(503);
+        expect(body.details).toBe("timeout");
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(2000);
+    }, 30000);
+
+    test("shutdown leaves no open pages or running browser behind", async () => {
+        const browserProvider = server.tokenService["browser"]!;
+        const browser = browserProvider["browser"]!;
+        const pages = () => browser.contexts().flatMap(context => context.pages());
+        expect(browser.isConnected()).toBe(true);
+        expect(pages()).toHaveLength(0);
+
+        await server.shutdown();
+
+        expect(browser.isConnected()).toBe(false);
+        expect(pages()).toHaveLength(0);
+        expect(browserProvider["watchdogTimer"]).toBeNull();
+        expect(browserProvider.getStatus().connected).toBe(false);
+    }, 30000);
+});
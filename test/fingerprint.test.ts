@@ -0,0 +1,84 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { initConfig } from "../src/config";
+import { FingerprintConfig } from "../src/services/fingerprint";
+import { ConfigValidationError } from "../src/utils/errors";
+import { TEST_ENV, tempDir } from "./helpers";
+
+describe("FingerprintConfig", () => {
+    const dir = tempDir();
+    let path: string;
+    let run = 0;
+
+    beforeEach(() => {
+        path = join(dir, `fingerprint-${++run}.json`);
+    });
+
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    function configure(env: Record<string, string> = {}) {
+        initConfig({ env: { ...TEST_ENV, ...env }, file: null });
+    }
+
+    test.each([
+        ["BROWSER_ENGINE", "netscape"],
+        ["BROWSER_LOCALE", "not a locale"],
+        ["BROWSER_TIMEZONE", "Mars/Olympus_Mons"],
+    ])("config validation rejects an invalid %s", (name, value) => {
+        expect(() => configure({ [name]: value })).toThrow(ConfigValidationError);
+    });
+
+    test("an invalid file lists every problem", () => {
+        writeFileSync(path, JSON.stringify({ engine: "netscape", viewport: { width: 10, height: 720 }, colour: "blue" }));
+        configure({ BROWSER_FINGERPRINT_FILE: path });
+
+        let error: unknown;
+        try {
+            new FingerprintConfig();
+        } catch (caught) {
+            error = caught;
+        }
+
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        expect((error as ConfigValidationError).errors).toEqual([
+            'unknown key "colour"',
+            "engine must be one of chromium, firefox, webkit",
+            "viewport must be { width, height } with integers between 200 and 8000",
+        ]);
+    });
+
+    test("BROWSER_* settings win over the file", () => {
+        writeFileSync(path, JSON.stringify({ engine: "firefox", locale: "de-DE", userAgents: ["file-agent-1", "file-agent-2"] }));
+        configure({ BROWSER_FINGERPRINT_FILE: path, BROWSER_LOCALE: "en-GB", BROWSER_TIMEZONE: "Europe/London" });
+
+        const fingerprint = new FingerprintConfig().current;
+
+        expect(fingerprint).toMatchObject({ engine: "firefox", locale: "en-GB", timezone: "Europe/London", userAgents: ["file-agent-1", "file-agent-2"] });
+    });
+
+    test("a reload picks up the current configuration", () => {
+        configure();
+        const fingerprint = new FingerprintConfig();
+        expect(fingerprint.getStatus()).toMatchObject({ locale: "en-US", source: "defaults" });
+
+        writeFileSync(path, JSON.stringify({ userAgents: ["reloaded-agent"] }));
+        configure({ BROWSER_FINGERPRINT_FILE: path, BROWSER_TIMEZONE: "Asia/Tokyo" });
+
+        expect(fingerprint.reload()).toEqual(["userAgents", "timezone"]);
+        expect(fingerprint.nextUserAgent()).toBe("reloaded-agent");
+        expect(fingerprint.getStatus()).toMatchObject({ timezone: "Asia/Tokyo", source: path });
+    });
+
+    test("an invalid reload keeps the current fingerprint", () => {
+        writeFileSync(path, JSON.stringify({ locale: "fr-FR" }));
+        configure({ BROWSER_FINGERPRINT_FILE: path });
+        const fingerprint = new FingerprintConfig();
+
+        writeFileSync(path, "{ not json");
+        expect(() => fingerprint.reload()).toThrow(ConfigValidationError);
+
+        expect(fingerprint.current.locale).toBe("fr-FR");
+        expect(fingerprint.getStatus().source).toBe(path);
+    });
+});
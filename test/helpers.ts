@@ -0,0 +1,83 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Cookie, SpotifyToken, TokenProvider, TokenProviderEntry } from "../src/types/types";
+
+/**
+ * Token provider whose fetches stay pending until the test releases them,
+ * so concurrent callers can be lined up against a single in-flight fetch
+ */
+export class GatedProvider implements TokenProvider {
+    public readonly name = "gated";
+    public readonly supportsAccounts = true;
+    public fetches = 0;
+    /** Cookies each fetch was started with, in order */
+    public readonly cookies: Array<Cookie[] | undefined> = [];
+    /** Lifetime of issued tokens */
+    public ttlMs = 60 * 60 * 1000;
+    private open = false;
+    private waiting: Array<() => void> = [];
+
+    public async getToken(cookies?: Cookie[]): Promise<SpotifyToken> {
+        this.fetches++;
+        this.cookies.push(cookies);
+        const fetch = this.fetches;
+        if (!this.open) await new Promise<void>(resolve => this.waiting.push(resolve));
+
+        return {
+            clientId: "gated-client",
+            accessToken: `gated-${fetch}-${crypto.randomUUID()}`,
+            accessTokenExpirationTimestampMs: Date.now() + this.ttlMs,
+            isAnonymous: !cookies?.some(cookie => cookie.name === "sp_dc"),
+        };
+    }
+
+    public get pending(): number {
+        return this.waiting.length;
+    }
+
+    /** Let every fetch started so far complete */
+    public release(): void {
+        const waiting = this.waiting;
+        this.waiting = [];
+        waiting.forEach(resolve => resolve());
+    }
+
+    /** Release the fetches started so far and let later ones complete right away */
+    public openGate(): void {
+        this.open = true;
+        this.release();
+    }
+
+    public async close(): Promise<void> {
+        this.release();
+    }
+
+    public entry(timeoutMs = 30000): TokenProviderEntry {
+        return { provider: this, timeoutMs };
+    }
+}
+
+/**
+ * Poll until `check` passes, failing after `timeoutMs`
+ */
+export async function waitFor(check: () => boolean, timeoutMs = 5000, message = "condition"): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!check()) {
+        if (Date.now() > deadline) throw new Error(`Timed out waiting for ${message}`);
+        await Bun.sleep(10);
+    }
+}
+
+/** Settings that keep tests quiet and independent of the host environment */
+export const TEST_ENV = {
+    LOG_LEVEL: "error",
+    TOKEN_STORE: "memory",
+};
+
+/**
+ * Fresh directory under the system temp dir, removing it is up to the test
+ */
+export function tempDir(prefix = "spotokn-test-"): string {
+    return mkdtempSync(join(tmpdir(), prefix));
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test, type Mock } from "bun:test";
+import { initConfig } from "../src/config";
+import { audit, logs } from "../src/utils/logger";
+import { TEST_ENV } from "./helpers";
+
+describe("logger", () => {
+    let output: Mock<typeof console.log>;
+
+    beforeEach(() => {
+        output = spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        output.mockRestore();
+        initConfig({ env: TEST_ENV, file: null });
+    });
+
+    const lines = () => output.mock.calls.map(call => String(call[0]));
+
+    test("a new configuration changes the level and format of later lines", () => {
+        initConfig({ env: { ...TEST_ENV, LOG_LEVEL: "error" }, file: null });
+        logs("warn", "dropped");
+        expect(lines()).toEqual([]);
+
+        initConfig({ env: { ...TEST_ENV, LOG_LEVEL: "warn", LOG_FORMAT: "json" }, file: null });
+        logs("warn", "kept");
+        logs("info", "still dropped");
+
+        expect(lines()).toHaveLength(1);
+        expect(JSON.parse(lines()[0]!)).toMatchObject({ level: "warn", message: "kept" });
+    });
+
+    test("audit events are written whatever the level", () => {
+        initConfig({ env: { ...TEST_ENV, LOG_LEVEL: "error", LOG_FORMAT: "json" }, file: null });
+
+        audit("admin.accounts.delete", { actor: "ops", account: "main", sp_dc: "AQ-secret" });
+
+        expect(lines()).toHaveLength(1);
+        expect(JSON.parse(lines()[0]!)).toMatchObject({
+            level: "audit",
+            message: "admin.accounts.delete",
+            data: { actor: "ops", account: "main", sp_dc: "[REDACTED]" },
+        });
+    });
+
+    test("audit events are marked in text output", () => {
+        initConfig({ env: { ...TEST_ENV, LOG_LEVEL: "error" }, file: null });
+
+        audit("admin.browser.recycle", { actor: "ops" });
+
+        expect(lines()[0]).toMatch(/^\[[^\]]+\] \[AUDIT\] admin\.browser\.recycle$/);
+    });
+});
@@ -0,0 +1,124 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { initConfig } from "../src/config";
+import { TokenProviderChain } from "../src/services/providers";
+import type { Cookie, SpotifyToken, TokenProvider } from "../src/types/types";
+import { TokenFetchError, type TokenFetchFailure } from "../src/utils/errors";
+import { registry } from "../src/utils/metrics";
+import { TEST_ENV } from "./helpers";
+
+/**
+ * Answers with a token, or fails with `failure`; `hang` never answers
+ */
+class ScriptedProvider implements TokenProvider {
+    public readonly supportsAccounts = true;
+    public fetches = 0;
+
+    constructor(public readonly name: string, private readonly failure?: TokenFetchFailure | "hang") { }
+
+    public async getToken(cookies?: Cookie[]): Promise<SpotifyToken> {
+        this.fetches++;
+        if (this.failure === "hang") return new Promise<never>(() => {});
+        if (this.failure) throw new TokenFetchError(`${this.name} failed`, this.failure);
+
+        return {
+            clientId: "metrics-client",
+            accessToken: `${this.name}-${this.fetches}`,
+            accessTokenExpirationTimestampMs: Date.now() + 60 * 60 * 1000,
+            isAnonymous: !cookies?.length,
+        };
+    }
+
+    public async close(): Promise<void> { }
+}
+
+/** Current value of one series in the Prometheus output, 0 when it was never written */
+function sample(name: string, labels: Record<string, string>): number {
+    // Labels are rendered sorted, with a histogram's `le` last
+    const names = Object.keys(labels).filter(label => label !== "le").sort().concat("le" in labels ? ["le"] : []);
+    const selector = names.map(label => `${label}="${labels[label]}"`).join(",");
+    const line = registry.render().split("\n").find(entry => entry.startsWith(`${name}{${selector}} `));
+    return line ? Number(line.split(" ")[1]) : 0;
+}
+
+/** Runs `action` and returns how much each series grew */
+async function growth(series: Array<[string, Record<string, string>]>, action: () => Promise<unknown>): Promise<number[]> {
+    const before = series.map(([name, labels]) => sample(name, labels));
+    await action().catch(() => undefined);
+    return series.map(([name, labels], index) => sample(name, labels) - before[index]!);
+}
+
+const SP_DC = [{ name: "sp_dc", value: "metrics-account" }];
+
+describe("provider chain metrics", () => {
+    beforeAll(() => initConfig({ env: TEST_ENV, file: null }));
+
+    test("a success is counted once for the chain and once for the provider that answered", async () => {
+        const chain = new TokenProviderChain([{ provider: new ScriptedProvider("m-ok"), timeoutMs: 1000 }]);
+
+        const grown = await growth([
+            ["spotokn_token_fetches_total", { type: "anonymous", outcome: "success" }],
+            ["spotokn_token_fetch_duration_seconds_count", { type: "anonymous", outcome: "success" }],
+            ["spotokn_token_provider_fetches_total", { provider: "m-ok", outcome: "success" }],
+        ], () => chain.getToken());
+
+        expect(grown).toEqual([1, 1, 1]);
+    });
+
+    test("a fallback records the failed provider by reason and the chain as a success", async () => {
+        const chain = new TokenProviderChain([
+            { provider: new ScriptedProvider("m-broken", "non_200"), timeoutMs: 1000 },
+            { provider: new ScriptedProvider("m-backup"), timeoutMs: 1000 },
+        ]);
+
+        const grown = await growth([
+            ["spotokn_token_fetches_total", { type: "authenticated", outcome: "success" }],
+            ["spotokn_token_provider_fetches_total", { provider: "m-broken", outcome: "non_200" }],
+            ["spotokn_token_provider_fetches_total", { provider: "m-backup", outcome: "success" }],
+        ], () => chain.getToken(SP_DC));
+
+        expect(grown).toEqual([1, 1, 1]);
+    });
+
+    test("when every provider fails the chain outcome is the first provider's reason", async () => {
+        const chain = new TokenProviderChain([
+            { provider: new ScriptedProvider("m-hang", "hang"), timeoutMs: 20 },
+            { provider: new ScriptedProvider("m-garbled", "parse_error"), timeoutMs: 1000 },
+        ]);
+
+        const grown = await growth([
+            ["spotokn_token_fetches_total", { type: "anonymous", outcome: "timeout" }],
+            ["spotokn_token_fetch_duration_seconds_count", { type: "anonymous", outcome: "timeout" }],
+            ["spotokn_token_provider_fetches_total", { provider: "m-hang", outcome: "timeout" }],
+            ["spotokn_token_provider_fetches_total", { provider: "m-garbled", outcome: "parse_error" }],
+        ], () => chain.getToken());
+
+        expect(grown).toEqual([1, 1, 1, 1]);
+    });
+
+    test("a rejected cookie ends the chain and is counted as invalid_cookie", async () => {
+        const backup = new ScriptedProvider("m-unused");
+        const chain = new TokenProviderChain([
+            { provider: new ScriptedProvider("m-rejecting", "invalid_cookie"), timeoutMs: 1000 },
+            { provider: backup, timeoutMs: 1000 },
+        ]);
+
+        const grown = await growth([
+            ["spotokn_token_fetches_total", { type: "authenticated", outcome: "invalid_cookie" }],
+            ["spotokn_token_provider_fetches_total", { provider: "m-rejecting", outcome: "invalid_cookie" }],
+        ], () => chain.getToken(SP_DC));
+
+        expect(grown).toEqual([1, 1]);
+        expect(backup.fetches).toBe(0);
+    });
+
+    test("latency lands in the histogram buckets", async () => {
+        const chain = new TokenProviderChain([{ provider: new ScriptedProvider("m-fast"), timeoutMs: 1000 }]);
+
+        const grown = await growth([
+            ["spotokn_token_fetch_duration_seconds_bucket", { type: "anonymous", outcome: "success", le: "0.1" }],
+            ["spotokn_token_fetch_duration_seconds_bucket", { type: "anonymous", outcome: "success", le: "+Inf" }],
+        ], () => chain.getToken());
+
+        expect(grown).toEqual([1, 1]);
+    });
+});
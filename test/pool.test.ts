@@ -0,0 +1,118 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { EventEmitter } from "node:events";
+import type { BrowserContext } from "playwright";
+import { initConfig } from "../src/config";
+import { ContextPool } from "../src/services/pool";
+import { TEST_ENV } from "./helpers";
+
+/**
+ * Stand-in for a Playwright context whose health check (clearCookies) can be held open
+ */
+class FakeContext extends EventEmitter {
+    public closed = false;
+    public healthy = true;
+    private checks: Array<() => void> = [];
+
+    public browser() {
+        return { isConnected: () => true };
+    }
+
+    public pages() {
+        return [];
+    }
+
+    public clearCookies(): Promise<void> {
+        if (!this.healthy) return Promise.reject(new Error("context crashed"));
+        return new Promise(resolve => this.checks.push(resolve));
+    }
+
+    /** Let the pending health checks finish */
+    public finishChecks(): void {
+        this.checks.splice(0).forEach(resolve => resolve());
+    }
+
+    public async close(): Promise<void> {
+        this.closed = true;
+        this.emit("close");
+    }
+}
+
+describe("ContextPool", () => {
+    beforeAll(() => initConfig({ env: TEST_ENV, file: null }));
+
+    function pool(size: number, waitTimeout = 1000) {
+        const created: FakeContext[] = [];
+        const contexts = new ContextPool(async () => {
+            const context = new FakeContext();
+            created.push(context);
+            return context as unknown as BrowserContext;
+        }, size, waitTimeout);
+        return { contexts, created };
+    }
+
+    const settled = (promise: Promise<unknown>) => Promise.race([promise.then(() => true, () => true), Bun.sleep(20).then(() => false)]);
+
+    test("a context under its release health check still counts against the size", async () => {
+        const { contexts, created } = pool(1);
+        const context = await contexts.acquire();
+
+        const released = contexts.release(context);
+        const next = contexts.acquire();
+        expect(await settled(next)).toBe(false);
+        expect(created).toHaveLength(1);
+        expect(contexts.getStatus()).toMatchObject({ idle: 0, leased: 0, waiting: 1 });
+
+        created[0]!.finishChecks();
+        await released;
+        expect(await next).toBe(context);
+        expect(created).toHaveLength(1);
+    });
+
+    test("drain waits for contexts that are still being returned", async () => {
+        const { contexts, created } = pool(2);
+        const released = contexts.release(await contexts.acquire());
+
+        const drained = contexts.drain(1000);
+        expect(await settled(drained)).toBe(false);
+
+        created[0]!.finishChecks();
+        await released;
+        expect(await drained).toBe(true);
+        expect(contexts.getStatus()).toMatchObject({ idle: 1, leased: 0 });
+    });
+
+    test("closing the pool during a health check closes the returning context", async () => {
+        const { contexts, created } = pool(1);
+        const released = contexts.release(await contexts.acquire());
+
+        await contexts.close();
+        created[0]!.finishChecks();
+        await released;
+
+        expect(created[0]!.closed).toBe(true);
+        expect(contexts.getStatus()).toMatchObject({ idle: 0, leased: 0, waiting: 0 });
+        await expect(contexts.acquire()).rejects.toThrow("Context pool is closed");
+    });
+
+    test("an unhealthy context is closed and a new one goes to the waiter", async () => {
+        const { contexts, created } = pool(1);
+        const context = await contexts.acquire();
+        const next = contexts.acquire();
+
+        created[0]!.healthy = false;
+        await contexts.release(context);
+
+        const replacement = await next;
+        expect(created[0]!.closed).toBe(true);
+        expect(replacement).toBe(created[1]! as unknown as BrowserContext);
+        expect(contexts.getStatus()).toMatchObject({ idle: 0, leased: 1 });
+    });
+
+    test("a queued lease gives up after the wait timeout", async () => {
+        const { contexts } = pool(1, 50);
+        await contexts.acquire();
+
+        await expect(contexts.acquire()).rejects.toThrow("Timed out after 50ms waiting for a browser context");
+        expect(contexts.getStatus().waiting).toBe(0);
+    });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { createTokenServer, type ApplicationServer } from "../src/app";
+import { initConfig } from "../src/config";
+import { RateLimitMiddleware } from "../src/middleware/ratelimit";
+import type { ApiClient } from "../src/types/types";
+import { RateLimitError } from "../src/utils/errors";
+import { GatedProvider, TEST_ENV } from "./helpers";
+
+const client: ApiClient = {
+    id: "test-client",
+    name: "test",
+    limits: { anonymous: 3, authenticated: 1 },
+    authenticated: true,
+    admin: false,
+};
+
+describe("RateLimitMiddleware", () => {
+    afterEach(() => setSystemTime());
+
+    function consume(limiter: RateLimitMiddleware, tier: "anonymous" | "authenticated" = "anonymous") {
+        const headers: Record<string, string> = {};
+        try {
+            limiter.consume(client, tier, (name, value) => { headers[name] = value; });
+            return { headers, error: null };
+        } catch (error) {
+            return { headers, error };
+        }
+    }
+
+    test("counts requests in a fixed window and refuses the one over the limit", () => {
+        initConfig({ env: { ...TEST_ENV, RATE_LIMIT_WINDOW_MS: "30000" }, file: null });
+        setSystemTime(new Date("2026-01-01T00:00:00Z"));
+        const limiter = new RateLimitMiddleware();
+
+        const remaining = [1, 2, 3].map(() => consume(limiter).headers["RateLimit-Remaining"]);
+        expect(remaining).toEqual(["2", "1", "0"]);
+
+        setSystemTime(new Date("2026-01-01T00:00:10Z"));
+        const refused = consume(limiter);
+        expect(refused.error).toBeInstanceOf(RateLimitError);
+        expect((refused.error as RateLimitError).retryAfterSeconds).toBe(20);
+        expect(refused.headers).toEqual({
+            "RateLimit-Limit": "3",
+            "RateLimit-Reset": "20",
+            "RateLimit-Policy": "3;w=30",
+            "RateLimit-Remaining": "0",
+            "Retry-After": "20",
+        });
+
+        // The tiers are counted apart
+        expect(consume(limiter, "authenticated").error).toBeNull();
+        expect(consume(limiter, "authenticated").error).toBeInstanceOf(RateLimitError);
+    });
+
+    test("a new window starts with the full budget", () => {
+        initConfig({ env: { ...TEST_ENV, RATE_LIMIT_WINDOW_MS: "30000" }, file: null });
+        setSystemTime(new Date("2026-01-01T00:00:00Z"));
+        const limiter = new RateLimitMiddleware();
+        [1, 2, 3].forEach(() => consume(limiter));
+        expect(consume(limiter).error).toBeInstanceOf(RateLimitError);
+
+        setSystemTime(new Date("2026-01-01T00:00:30Z"));
+        const next = consume(limiter);
+        expect(next.error).toBeNull();
+        expect(next.headers["RateLimit-Remaining"]).toBe("2");
+        expect(next.headers["RateLimit-Reset"]).toBe("30");
+    });
+
+    test("a limit of 0 sets no headers and never refuses", () => {
+        initConfig({ env: TEST_ENV, file: null });
+        const limiter = new RateLimitMiddleware();
+        const unlimited = { ...client, limits: { anonymous: 0, authenticated: 0 } };
+
+        for (let i = 0; i < 50; i++) {
+            limiter.consume(unlimited, "anonymous", () => { throw new Error("no headers expected"); });
+        }
+    });
+});
+
+describe("per-IP rate limits without API keys", () => {
+    let provider: GatedProvider;
+    let server: ApplicationServer;
+
+    function start(env: Record<string, string>): void {
+        provider = new GatedProvider();
+        provider.openGate();
+        server = createTokenServer({
+            config: { env: { ...TEST_ENV, RATE_LIMIT_ANONYMOUS: "2", ...env }, file: null },
+            providers: [provider.entry()],
+        });
+    }
+
+    afterEach(() => server.shutdown());
+
+    const get = () => server.handle(new Request("http://localhost/api/token"));
+
+    test("apply by default", async () => {
+        start({});
+
+        const allowed = [await get(), await get()];
+        expect(allowed.map(response => response.status)).toEqual([200, 200]);
+        expect(allowed[1]!.headers.get("RateLimit-Limit")).toBe("2");
+        expect(allowed[1]!.headers.get("RateLimit-Remaining")).toBe("0");
+
+        const refused = await get();
+        expect(refused.status).toBe(429);
+        expect(Number(refused.headers.get("Retry-After"))).toBeGreaterThan(0);
+        expect(refused.headers.get("RateLimit-Remaining")).toBe("0");
+    });
+
+    test("RATE_LIMIT_PER_IP=false opts out", async () => {
+        start({ RATE_LIMIT_PER_IP: "false" });
+
+        for (let i = 0; i < 5; i++) {
+            const response = await get();
+            expect(response.status).toBe(200);
+            expect(response.headers.get("RateLimit-Limit")).toBeNull();
+        }
+    });
+});
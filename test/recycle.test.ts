@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { createTokenServer } from "../src/app";
+import { getConfig, initConfig } from "../src/config";
+import { SpotifyBrowser } from "../src/services/browser";
+import type { ServiceEvent } from "../src/types/types";
+import { ConfigValidationError } from "../src/utils/errors";
+import { GatedProvider, TEST_ENV } from "./helpers";
+
+interface ScheduledJob {
+    options: { timezone?: string };
+    nextRun(): Date | null;
+    isStopped(): boolean;
+}
+
+describe("browser recycle watchdog", () => {
+    let browser: SpotifyBrowser;
+
+    afterEach(() => browser.close());
+
+    function start(env: Record<string, string>) {
+        initConfig({ env: { ...TEST_ENV, ...env }, file: null });
+        browser = new SpotifyBrowser();
+        return spyOn(browser, "recycle").mockResolvedValue();
+    }
+
+    /** Pretend a browser was launched `ageMs` ago and has served `fetches` tokens */
+    function launched(ageMs: number, fetches = 0): void {
+        browser["launchedAt"] = Date.now() - ageMs;
+        browser["fetchesSinceLaunch"] = fetches;
+    }
+
+    test("the watchdog only runs when an age or memory threshold is set", () => {
+        start({ BROWSER_RECYCLE_MAX_FETCHES: "100" });
+        expect(browser["watchdogTimer"]).toBeNull();
+        void browser.close();
+
+        start({ BROWSER_RECYCLE_MAX_AGE_MS: "3600000" });
+        expect(browser["watchdogTimer"]).not.toBeNull();
+    });
+
+    test("closing the browser stops the watchdog", async () => {
+        start({ BROWSER_RECYCLE_MAX_RSS_MB: "2048" });
+
+        await browser.close();
+
+        expect(browser["watchdogTimer"]).toBeNull();
+    });
+
+    test.each([
+        ["BROWSER_RECYCLE_MAX_FETCHES", "100", 100, "100 fetches"],
+        ["BROWSER_RECYCLE_MAX_AGE_MS", "120000", 0, "age 120s"],
+    ])("%s recycles the browser once it is reached", (name, value, fetches, reason) => {
+        const recycle = start({ [name]: value });
+
+        launched(119_000, fetches - 1);
+        browser["checkRecycleThresholds"]();
+        expect(recycle).not.toHaveBeenCalled();
+
+        launched(120_000, fetches);
+        browser["checkRecycleThresholds"]();
+        expect(recycle).toHaveBeenCalledWith(reason);
+    });
+
+    test("BROWSER_RECYCLE_MAX_RSS_MB compares against the memory of the process tree", () => {
+        const recycle = start({ BROWSER_RECYCLE_MAX_RSS_MB: "1" });
+
+        launched(120_000);
+        browser["checkRecycleThresholds"]();
+
+        expect(recycle).toHaveBeenCalledTimes(1);
+        expect(recycle.mock.calls[0]![0]).toMatch(/^rss \d+MB$/);
+    });
+
+    test("a browser younger than a minute is never recycled", () => {
+        const recycle = start({ BROWSER_RECYCLE_MAX_FETCHES: "1", BROWSER_RECYCLE_MAX_AGE_MS: "1000", BROWSER_RECYCLE_MAX_RSS_MB: "1" });
+
+        launched(59_000, 50);
+        browser["checkRecycleThresholds"]();
+
+        expect(recycle).not.toHaveBeenCalled();
+    });
+
+    test("nothing is recycled before the first launch or while a recycle is running", () => {
+        const recycle = start({ BROWSER_RECYCLE_MAX_FETCHES: "1" });
+
+        browser["checkRecycleThresholds"]();
+        launched(120_000, 5);
+        browser["recycling"] = new Promise(() => {});
+        browser["checkRecycleThresholds"]();
+        browser["recycling"] = undefined;
+
+        expect(recycle).not.toHaveBeenCalled();
+    });
+
+    test("a recycle without a running browser is skipped", async () => {
+        start({}).mockRestore();
+        const emitted: ServiceEvent[] = [];
+        browser.onEvent(event => emitted.push(event));
+
+        await browser.recycle("manual");
+
+        expect(browser.getStatus()).toMatchObject({ recycles: 0, lastRecycle: null, recycling: false });
+        expect(emitted).toEqual([]);
+    });
+});
+
+describe("scheduled recycling", () => {
+    test("BROWSER_RECYCLE_CRON registers one job per pattern in the configured time zone", async () => {
+        const server = createTokenServer({
+            config: { env: { ...TEST_ENV, BROWSER_RECYCLE_CRON: "0 4 * * *; 30 2 * * 0", BROWSER_RECYCLE_CRON_TIMEZONE: "Europe/Berlin" }, file: null },
+            providers: [new GatedProvider().entry()],
+        });
+        const jobs = (server["app"].store as { cron: Record<string, ScheduledJob> }).cron;
+
+        expect(Object.keys(jobs)).toEqual(["browser-recycle-1", "browser-recycle-2"]);
+        expect(jobs["browser-recycle-1"]!.options.timezone).toBe("Europe/Berlin");
+        expect(jobs["browser-recycle-2"]!.nextRun()!.getUTCDay()).toBe(0);
+
+        await server.shutdown();
+        expect(Object.values(jobs).every(job => job.isStopped())).toBe(true);
+    });
+
+    test.each([
+        ["an out of range field", "61 * * * *", "minute value out of range"],
+        ["the wrong number of fields", "0 4 * *", "five or six space separated parts"],
+    ])("a pattern with %s fails config validation", (_case, pattern, detail) => {
+        const before = getConfig();
+        let error: unknown;
+        try {
+            initConfig({ env: { ...TEST_ENV, BROWSER_RECYCLE_CRON: `0 4 * * *;${pattern}` }, file: null });
+        } catch (caught) {
+            error = caught;
+        }
+
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        expect((error as ConfigValidationError).errors).toEqual([
+            expect.stringMatching(new RegExp(`^browser\\.recycle\\.cron \\(BROWSER_RECYCLE_CRON\\): "${pattern.replace(/\*/g, "\\*")}" is not a valid cron pattern - .*${detail}`)),
+        ]);
+        expect(getConfig()).toBe(before);
+    });
+});
@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { createTokenServer } from "../src/app";
+import { initConfig } from "../src/config";
+import { Spotify } from "../src/services/spotify";
+import type { TokenResponse } from "../src/types/schemas";
+import { TokenFetchError } from "../src/utils/errors";
+import { GatedProvider, TEST_ENV, waitFor } from "./helpers";
+
+const CALLERS = 25;
+
+describe("anonymous refresh single-flight", () => {
+    let provider: GatedProvider;
+    let service: Spotify;
+
+    function start(env: Record<string, string> = {}): void {
+        initConfig({ env: { ...TEST_ENV, ...env }, file: null });
+        provider = new GatedProvider();
+        service = new Spotify({ providers: [provider.entry()] });
+    }
+
+    afterEach(async () => {
+        provider.release();
+        await service.cleanup();
+    });
+
+    test("simultaneous on-demand requests share one provider fetch", async () => {
+        start();
+        // The constructor warms the anonymous token, so that fetch is the one in flight
+        await waitFor(() => provider.fetches === 1, 1000, "the warm-up fetch");
+
+        const results = Promise.all(Array.from({ length: CALLERS }, () => service.getToken()));
+        await Bun.sleep(20);
+        expect(provider.fetches).toBe(1);
+
+        provider.release();
+        const tokens = (await results).map(result => result!.token.accessToken);
+        expect(new Set(tokens).size).toBe(1);
+        expect(provider.fetches).toBe(1);
+    });
+
+    test("simultaneous forced refreshes share one provider fetch", async () => {
+        start();
+        await waitFor(() => provider.fetches === 1, 1000, "the warm-up fetch");
+        provider.release();
+        const cached = (await service.getToken())!.token;
+
+        const results = Promise.all(Array.from({ length: CALLERS }, () => service.getToken(undefined, { force: true })));
+        await waitFor(() => provider.pending === 1, 1000, "the forced fetch");
+        await Bun.sleep(20);
+        expect(provider.fetches).toBe(2);
+
+        provider.release();
+        const settled = await results;
+        const tokens = new Set(settled.map(result => result!.token.accessToken));
+        expect(tokens.size).toBe(1);
+        expect(tokens.has(cached.accessToken)).toBe(false);
+        expect(settled.filter(result => result!.source === "forced")).toHaveLength(1);
+        expect(provider.fetches).toBe(2);
+    });
+
+    test("a proactive refresh is shared with forced and on-demand callers", async () => {
+        // Tokens live 5 minutes, inside the 10 minute refresh buffer, so every check refreshes
+        start({ TOKEN_REFRESH_BUFFER_MS: "600000", TOKEN_REFRESH_CHECK_INTERVAL_MS: "1000" });
+        provider.ttlMs = 5 * 60 * 1000;
+        await waitFor(() => provider.fetches === 1, 1000, "the warm-up fetch");
+        provider.release();
+        await service.getToken();
+
+        await waitFor(() => service.getStatus().isRefreshing, 3000, "the proactive refresh");
+        expect(provider.fetches).toBe(2);
+
+        const forced = Array.from({ length: CALLERS }, () => service.getToken(undefined, { force: true }));
+        const onDemand = Array.from({ length: CALLERS }, () => service.refreshAnonymousNow());
+        await Bun.sleep(20);
+        expect(provider.fetches).toBe(2);
+
+        provider.release();
+        const tokens = await Promise.all([...forced.map(result => result.then(r => r!.token)), ...onDemand]);
+        expect(new Set(tokens.map(token => token!.accessToken)).size).toBe(1);
+        expect(provider.fetches).toBe(2);
+    });
+
+    test("callers joining a refresh give up after REFRESH_WAIT_TIMEOUT_MS", async () => {
+        start({ REFRESH_WAIT_TIMEOUT_MS: "1000" });
+        await waitFor(() => provider.fetches === 1, 1000, "the warm-up fetch");
+
+        const startedAt = Date.now();
+        const error = await service.getToken().then(() => null, (error: unknown) => error);
+        const waited = Date.now() - startedAt;
+
+        expect(error).toBeInstanceOf(TokenFetchError);
+        expect((error as TokenFetchError).reason).toBe("timeout");
+        expect(waited).toBeGreaterThanOrEqual(950);
+        expect(waited).toBeLessThan(3000);
+
+        // The refresh itself keeps running and still lands for the next caller
+        expect(provider.fetches).toBe(1);
+        provider.release();
+        await waitFor(() => service.getStatus().hasAnonymousToken, 1000, "the refreshed token");
+        expect((await service.getToken())!.source).toBe("cache");
+        expect(provider.fetches).toBe(1);
+    });
+});
+
+describe("forced refresh cooldown", () => {
+    const ACCOUNT = [{ name: "sp_dc", value: "cooldown-account" }];
+    let provider: GatedProvider;
+    let service: Spotify;
+
+    afterEach(async () => {
+        setSystemTime();
+        await service.cleanup();
+    });
+
+    async function start(): Promise<void> {
+        initConfig({ env: { ...TEST_ENV, FORCE_REFRESH_COOLDOWN_MS: "30000" }, file: null });
+        provider = new GatedProvider();
+        provider.openGate();
+        service = new Spotify({ providers: [provider.entry()] });
+        await waitFor(() => service.getStatus().hasAnonymousToken, 1000, "the warm-up token");
+    }
+
+    test("a second force inside the cooldown serves the cached token until the cooldown passes", async () => {
+        const now = Date.now();
+        setSystemTime(new Date(now));
+        await start();
+
+        const forced = (await service.getToken(undefined, { force: true }))!;
+        expect(forced.source).toBe("forced");
+        expect(provider.fetches).toBe(2);
+
+        setSystemTime(new Date(now + 29_000));
+        const blocked = (await service.getToken(undefined, { force: true }))!;
+        expect(blocked).toMatchObject({ source: "cache", token: { accessToken: forced.token.accessToken } });
+        expect(provider.fetches).toBe(2);
+
+        setSystemTime(new Date(now + 30_000));
+        const again = (await service.getToken(undefined, { force: true }))!;
+        expect(again.source).toBe("forced");
+        expect(again.token.accessToken).not.toBe(forced.token.accessToken);
+        expect(provider.fetches).toBe(3);
+    });
+
+    test("the cooldown is kept per token", async () => {
+        await start();
+        await service.getToken(undefined, { force: true });
+
+        const account = (await service.getToken(ACCOUNT, { force: true }))!;
+        expect(account.source).toBe("forced");
+        expect(account.token.isAnonymous).toBe(false);
+
+        expect((await service.getToken(ACCOUNT, { force: true }))!.source).toBe("cache");
+        expect((await service.getToken(undefined, { force: true }))!.source).toBe("cache");
+        expect(provider.fetches).toBe(3);
+    });
+
+    test("?force=true on /api/token reports how the token was served", async () => {
+        provider = new GatedProvider();
+        provider.openGate();
+        const server = createTokenServer({ config: { env: TEST_ENV, file: null }, providers: [provider.entry()] });
+        service = server.tokenService;
+        await waitFor(() => service.getStatus().hasAnonymousToken, 1000, "the warm-up token");
+
+        const get = async (query: string) => (await server.handle(new Request(`http://localhost/api/token${query}`))).json() as Promise<typeof TokenResponse.static>;
+
+        expect(await get("?force=true")).toMatchObject({ source: "forced", cached: false });
+        expect(await get("?force=true")).toMatchObject({ source: "cache", cached: true });
+        expect(await get("")).toMatchObject({ source: "cache", cached: true });
+        expect(provider.fetches).toBe(2);
+        await server.shutdown();
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { backoffDelay, retry } from "../src/utils/retry";
+
+describe("backoffDelay", () => {
+    test("stays between 0 and the capped exponential ceiling", () => {
+        const random = spyOn(Math, "random");
+        try {
+            random.mockReturnValue(0);
+            expect(backoffDelay(3, 100, 1000)).toBe(0);
+
+            random.mockReturnValue(0.999999);
+            expect([0, 1, 2, 3, 4, 10].map(attempt => backoffDelay(attempt, 100, 1000))).toEqual([100, 200, 400, 800, 1000, 1000]);
+        } finally {
+            random.mockRestore();
+        }
+
+        for (let i = 0; i < 200; i++) {
+            const delay = backoffDelay(2, 100, 1000);
+            expect(delay).toBeGreaterThanOrEqual(0);
+            expect(delay).toBeLessThanOrEqual(400);
+        }
+    });
+});
+
+describe("retry", () => {
+    const options = { attempts: 4, baseDelayMs: 5, maxDelayMs: 20 };
+
+    test("stops at the first success", async () => {
+        const attempts: number[] = [];
+        const result = await retry(async attempt => {
+            attempts.push(attempt);
+            if (attempt < 3) throw new Error(`attempt ${attempt}`);
+            return "ok";
+        }, options);
+
+        expect(result).toBe("ok");
+        expect(attempts).toEqual([1, 2, 3]);
+    });
+
+    test("gives up after `attempts` tries with the last error", async () => {
+        let calls = 0;
+        const retries: Array<{ attempt: number; delayMs: number }> = [];
+
+        const error = await retry(async attempt => {
+            calls++;
+            throw new Error(`attempt ${attempt}`);
+        }, { ...options, onRetry: (_error, attempt, delayMs) => retries.push({ attempt, delayMs }) }).catch((error: Error) => error);
+
+        expect((error as Error).message).toBe("attempt 4");
+        expect(calls).toBe(4);
+        expect(retries.map(entry => entry.attempt)).toEqual([1, 2, 3]);
+        // Ceilings of 5, 10 and 20ms (capped by maxDelayMs)
+        retries.forEach(({ delayMs }, index) => {
+            expect(delayMs).toBeGreaterThanOrEqual(0);
+            expect(delayMs).toBeLessThanOrEqual(Math.min(20, 5 * 2 ** index));
+        });
+    });
+
+    test("non-retryable errors are thrown right away", async () => {
+        let calls = 0;
+        const error = await retry(async () => {
+            calls++;
+            throw new Error("fatal");
+        }, { ...options, isRetryable: error => (error as Error).message !== "fatal" }).catch((error: Error) => error);
+
+        expect((error as Error).message).toBe("fatal");
+        expect(calls).toBe(1);
+    });
+
+    test("at least one attempt is made", async () => {
+        let calls = 0;
+        await retry(async () => { calls++; }, { ...options, attempts: 0 });
+        expect(calls).toBe(1);
+    });
+});
@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTokenServer, type ApplicationServer } from "../src/app";
+import { startStandin, type Standin } from "../src/dev/standin";
+import type { ErrorResponse, TokenIntrospectionResponse, TokenResponse } from "../src/types/schemas";
+import type { ServiceEvent } from "../src/types/types";
+import { TEST_ENV } from "./helpers";
+
+type TokenBody = typeof TokenResponse.static;
+type IntrospectionBody = typeof TokenIntrospectionResponse.static;
+type ErrorBody = typeof ErrorResponse.static;
+
+describe("revoked tokens", () => {
+    let standin: Standin;
+    let server: ApplicationServer;
+    const events: ServiceEvent[] = [];
+
+    beforeAll(() => {
+        standin = startStandin();
+        // The http provider reads the stand-in token endpoint directly, no browser involved
+        server = createTokenServer({
+            config: {
+                env: {
+                    ...TEST_ENV,
+                    TOKEN_PROVIDERS: "http",
+                    HTTP_PROVIDER_URL: `${standin.url}api/token`,
+                    TOKEN_VALIDATION_URL: `${standin.url}__standin/probe`,
+                    TOKEN_VALIDATION_INTERVAL_MS: "0",
+                },
+                file: null,
+            },
+        });
+        server.tokenService.onServiceEvent(event => events.push(event));
+    });
+
+    afterAll(async () => {
+        await server.shutdown();
+        await standin.stop();
+    });
+
+    async function getToken(cookie?: string): Promise<TokenBody> {
+        const response = await server.handle(new Request("http://localhost/api/token", {
+            headers: cookie ? { cookie } : {},
+        }));
+        expect(response.status).toBe(200);
+        return response.json() as Promise<TokenBody>;
+    }
+
+    async function introspect<T = IntrospectionBody>(accessToken: string, validate?: boolean) {
+        const response = await server.handle(new Request("http://localhost/api/token/introspect", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify(validate === undefined ? { accessToken } : { accessToken, validate }),
+        }));
+        return { status: response.status, body: await response.json() as T };
+    }
+
+    test("a revoked anonymous token is evicted and replaced", async () => {
+        const first = await getToken();
+        const cached = await getToken();
+        expect(cached.accessToken).toBe(first.accessToken);
+        expect(cached.source).toBe("cache");
+
+        expect(standin.revoke(first.accessToken)).toBe(1);
+        const replaced = await getToken();
+
+        expect(replaced.accessToken).not.toBe(first.accessToken);
+        expect(replaced.source).not.toBe("cache");
+        expect(replaced.isAnonymous).toBe(true);
+        expect(events.filter(event => event.type === "token.revoked")).toHaveLength(1);
+        expect(events.find(event => event.type === "token.revoked")?.data.type).toBe("anonymous");
+
+        const next = await getToken();
+        expect(next.accessToken).toBe(replaced.accessToken);
+        expect(next.source).toBe("cache");
+    });
+
+    test("a revoked account token is evicted and replaced", async () => {
+        const cookie = "sp_dc=revocation-test";
+        const first = await getToken(cookie);
+        expect(first.isAnonymous).toBe(false);
+        expect((await getToken(cookie)).source).toBe("cache");
+
+        const before = standin.tokenRequests;
+        standin.revoke(first.accessToken);
+        const replaced = await getToken(cookie);
+
+        expect(replaced.accessToken).not.toBe(first.accessToken);
+        expect(replaced.isAnonymous).toBe(false);
+        expect(standin.tokenRequests - before).toBe(1);
+        expect(events.filter(event => event.type === "token.revoked").at(-1)?.data.type).toBe("authenticated");
+
+        // The anonymous token is left alone
+        expect((await getToken()).source).toBe("cache");
+    });
+
+    test("introspection reports the probe result of a served token", async () => {
+        const token = (await getToken("sp_dc=introspect-test")).accessToken;
+
+        const unchecked = await introspect(token);
+        expect(unchecked.status).toBe(200);
+        expect(unchecked.body.isAnonymous).toBe(false);
+        expect(unchecked.body.provider).toBe("http");
+        expect(unchecked.body.expired).toBe(false);
+        expect(unchecked.body.remainingMs).toBeGreaterThan(0);
+        expect(unchecked.body.validation).toBeNull();
+
+        const valid = await introspect(token, true);
+        expect(valid.body.validation).toMatchObject({ valid: true, status: 200, error: null });
+
+        standin.revoke(token);
+        const revoked = await introspect(token, true);
+        expect(revoked.body.validation).toMatchObject({ valid: false, status: 401 });
+
+        // Without `validate` the last result is reported as is
+        const last = await introspect(token);
+        expect(last.body.validation?.valid).toBe(false);
+        expect(last.body.validation?.checkedAt).toBe(revoked.body.validation!.checkedAt);
+    });
+
+    test("introspection does not know tokens this service never served", async () => {
+        const { status, body } = await introspect<ErrorBody>("never-served");
+
+        expect(status).toBe(404);
+        expect(body.success).toBe(false);
+        expect(body.error).toBe("Token was not served by this service");
+    });
+});
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createTokenServer, type ApplicationServer } from "../src/app";
+import { initConfig } from "../src/config";
+import { SpotifyBrowser } from "../src/services/browser";
+import { GatedProvider, TEST_ENV, waitFor } from "./helpers";
+
+const GRACE_PERIOD_MS = 2000;
+
+describe("ApplicationServer.shutdown", () => {
+    let provider: GatedProvider;
+    let server: ApplicationServer;
+    let receiver: ReturnType<typeof Bun.serve> | null = null;
+
+    function start(env: Record<string, string> = {}, extraProviders: SpotifyBrowser[] = []): void {
+        initConfig({ env: { ...TEST_ENV, SHUTDOWN_GRACE_PERIOD_MS: String(GRACE_PERIOD_MS), ...env }, file: null });
+        provider = new GatedProvider();
+        server = createTokenServer({
+            providers: [provider.entry(), ...extraProviders.map(extra => ({ provider: extra, timeoutMs: 1000 }))],
+        });
+    }
+
+    const get = (path: string, init?: RequestInit) => server.handle(new Request(`http://localhost${path}`, init));
+
+    afterEach(async () => {
+        provider.release();
+        await server.shutdown();
+        receiver?.stop(true);
+        receiver = null;
+    });
+
+    test("requests arriving after shutdown starts get 503", async () => {
+        start();
+        provider.openGate();
+        expect((await get("/api/token")).status).toBe(200);
+
+        const shutdown = server.shutdown();
+        const response = await get("/api/token");
+
+        expect(response.status).toBe(503);
+        expect(response.headers.get("connection")).toBe("close");
+        expect((await response.json() as { error: string }).error).toBe("Service is shutting down");
+        await shutdown;
+        expect((await get("/health/live")).status).toBe(503);
+    });
+
+    test("an in-flight token fetch finishes within the grace period", async () => {
+        start();
+        await waitFor(() => provider.pending === 1, 1000, "the warm-up fetch");
+
+        const inFlight = get("/api/token");
+        await Bun.sleep(20);
+
+        const startedAt = Date.now();
+        let shutDown = false;
+        const shutdown = server.shutdown().then(() => {
+            shutDown = true;
+        });
+
+        await Bun.sleep(200);
+        expect(shutDown).toBe(false);
+        expect((await get("/api/token")).status).toBe(503);
+
+        provider.release();
+        const response = await inFlight;
+        expect(response.status).toBe(200);
+        expect((await response.json() as { accessToken: string }).accessToken).toStartWith("gated-1-");
+
+        await shutdown;
+        expect(Date.now() - startedAt).toBeLessThan(GRACE_PERIOD_MS);
+    });
+
+    test("shutdown stops waiting once the grace period has passed", async () => {
+        start({ SHUTDOWN_GRACE_PERIOD_MS: "300" });
+        await waitFor(() => provider.pending === 1, 1000, "the warm-up fetch");
+        const inFlight = get("/api/token");
+
+        const startedAt = Date.now();
+        await server.shutdown();
+        const elapsed = Date.now() - startedAt;
+
+        expect(elapsed).toBeGreaterThanOrEqual(300);
+        expect(elapsed).toBeLessThan(GRACE_PERIOD_MS);
+        await inFlight;
+    });
+
+    test("no pool, webhook, heartbeat or watchdog timers remain afterwards", async () => {
+        receiver = Bun.serve({ port: 0, fetch: () => new Response("unavailable", { status: 500 }) });
+        // The browser provider is never reached, it is only there for its recycling watchdog
+        initConfig({ env: { ...TEST_ENV, BROWSER_RECYCLE_MAX_AGE_MS: "3600000" }, file: null });
+        const browser = new SpotifyBrowser();
+        start({
+            ANONYMOUS_POOL_SIZE: "2",
+            ANONYMOUS_POOL_STAGGER_MS: "50",
+            BROWSER_RECYCLE_MAX_AGE_MS: "3600000",
+            WEBHOOK_URL: `http://localhost:${receiver.port}/hook`,
+        }, [browser]);
+        provider.openGate();
+
+        const stream = new AbortController();
+        const sse = await get("/api/token/stream", { signal: stream.signal });
+        expect(sse.status).toBe(200);
+
+        const service = server.tokenService;
+        const webhooks = server["webhooks"];
+        const hub = server["streamHub"];
+        // The failed rotation webhook waits for its retry
+        await waitFor(() => webhooks["timer"] !== null, 3000, "the webhook retry");
+        await waitFor(() => service["anonymousPool"]!["timer"] !== null, 1000, "the pool timer");
+        expect(hub["heartbeatTimer"]).not.toBeNull();
+        expect(browser["watchdogTimer"]).not.toBeNull();
+        expect(service["proactiveRefreshTimer"]).not.toBeNull();
+
+        await server.shutdown();
+        stream.abort();
+
+        expect(service["anonymousPool"]!["timer"]).toBeNull();
+        expect(webhooks["timer"]).toBeNull();
+        expect(hub["heartbeatTimer"]).toBeNull();
+        expect(hub.size).toBe(0);
+        expect(browser["watchdogTimer"]).toBeNull();
+        expect(service["proactiveRefreshTimer"]).toBeNull();
+    });
+});
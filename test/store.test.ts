@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { initConfig } from "../src/config";
+import { EncryptedTokenStore, FileTokenStore } from "../src/services/store";
+import type { SpotifyToken } from "../src/types/types";
+import { TEST_ENV, tempDir } from "./helpers";
+
+function token(accessToken: string, isAnonymous = true): SpotifyToken {
+    return {
+        clientId: "store-client",
+        accessToken,
+        accessTokenExpirationTimestampMs: Date.now() + 60 * 60 * 1000,
+        isAnonymous,
+    };
+}
+
+describe("FileTokenStore", () => {
+    const dir = tempDir();
+    let path: string;
+    let run = 0;
+
+    beforeAll(() => initConfig({ env: TEST_ENV, file: null }));
+    beforeEach(() => {
+        path = join(dir, `tokens-${++run}.json`);
+    });
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    const writeLock = (name: string, lock: object) => writeFileSync(`${path}.${name}.lock`, JSON.stringify(lock));
+    const readLock = (name: string) => JSON.parse(readFileSync(`${path}.${name}.lock`, "utf8"));
+
+    test("concurrent updates from several replicas are all kept", async () => {
+        // Separate instances share nothing in memory, like replicas on one volume
+        const replicas = [new FileTokenStore(path), new FileTokenStore(path), new FileTokenStore(path)];
+
+        await Promise.all(replicas.flatMap((store, replica) =>
+            Array.from({ length: 10 }, (_, i) => store.set(`r${replica}-${i}`, token(`token-${replica}-${i}`)))));
+
+        const stored = JSON.parse(readFileSync(path, "utf8")) as Record<string, SpotifyToken>;
+        expect(Object.keys(stored)).toHaveLength(30);
+        expect((await replicas[2]!.get("r0-9"))?.accessToken).toBe("token-0-9");
+
+        await Promise.all([replicas[0]!.delete("r1-0"), replicas[1]!.set("late", token("late")), replicas[2]!.delete("r0-0")]);
+        const after = JSON.parse(readFileSync(path, "utf8")) as Record<string, SpotifyToken>;
+        expect(Object.keys(after)).toHaveLength(29);
+        expect(after.late?.accessToken).toBe("late");
+        expect(existsSync(`${path}.data.lock`)).toBe(false);
+    });
+
+    test("a live lock is exclusive until it is released", async () => {
+        const [a, b] = [new FileTokenStore(path), new FileTokenStore(path)];
+
+        const lockId = await a.acquireLock("refresh", 10_000);
+        expect(lockId).toBeString();
+        expect(await b.acquireLock("refresh", 10_000)).toBeNull();
+
+        // Only the owner's release counts
+        await b.releaseLock("refresh", "someone-else");
+        expect(await b.acquireLock("refresh", 10_000)).toBeNull();
+
+        await a.releaseLock("refresh", lockId!);
+        expect(await b.acquireLock("refresh", 10_000)).toBeString();
+    });
+
+    test("exactly one replica takes over a stale lock", async () => {
+        writeLock("refresh", { id: "crashed-owner", expiresAt: Date.now() - 1000 });
+        const replicas = Array.from({ length: 5 }, () => new FileTokenStore(path));
+
+        const results = await Promise.all(replicas.map(store => store.acquireLock("refresh", 10_000)));
+        const winners = results.filter(id => id !== null);
+
+        expect(winners).toHaveLength(1);
+        expect(readLock("refresh")).toMatchObject({ id: winners[0], previous: "crashed-owner" });
+
+        // Releasing clears the takeover marker of the lock it replaced
+        await replicas[results.indexOf(winners[0]!)]!.releaseLock("refresh", winners[0]!);
+        expect(existsSync(`${path}.refresh.lock`)).toBe(false);
+        expect(existsSync(`${path}.refresh.lock.takeover-crashed-owner`)).toBe(false);
+    });
+
+    test("an unreadable lock file counts as stale", async () => {
+        writeFileSync(`${path}.refresh.lock`, "{ not json");
+
+        expect(await new FileTokenStore(path).acquireLock("refresh", 10_000)).toBeString();
+    });
+
+    test("updates go through a stale data lock left by a crashed replica", async () => {
+        writeLock("data", { id: "crashed-writer", expiresAt: Date.now() - 1000 });
+        const store = new FileTokenStore(path);
+
+        await store.set("anonymous", token("after-crash"));
+
+        expect((await store.get("anonymous"))?.accessToken).toBe("after-crash");
+        expect(existsSync(`${path}.data.lock`)).toBe(false);
+    });
+});
+
+describe("EncryptedTokenStore", () => {
+    const dir = tempDir();
+    let path: string;
+    let run = 0;
+
+    beforeAll(() => initConfig({ env: TEST_ENV, file: null }));
+    beforeEach(() => {
+        path = join(dir, `tokens-${++run}.json`);
+    });
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    test("authenticated tokens are only written encrypted", async () => {
+        const store = new EncryptedTokenStore(new FileTokenStore(path), "store secret");
+        await store.set("account:abc", token("BQ-account-token", false));
+        await store.set("anonymous", token("BQ-anonymous-token"));
+
+        const raw = readFileSync(path, "utf8");
+        expect(raw).not.toContain("BQ-account-token");
+        expect(raw).toContain("BQ-anonymous-token");
+
+        const replica = new EncryptedTokenStore(new FileTokenStore(path), "store secret");
+        expect(await replica.get("account:abc")).toMatchObject({ accessToken: "BQ-account-token", isAnonymous: false });
+        expect((await replica.get("anonymous"))?.accessToken).toBe("BQ-anonymous-token");
+    });
+
+    test("another key reads encrypted tokens as missing", async () => {
+        await new EncryptedTokenStore(new FileTokenStore(path), "store secret").set("account:abc", token("BQ-account-token", false));
+
+        expect(await new EncryptedTokenStore(new FileTokenStore(path), "other secret").get("account:abc")).toBeNull();
+    });
+});
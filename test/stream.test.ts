@@ -0,0 +1,132 @@
+import { afterAll, afterEach, describe, expect, test } from "bun:test";
+import { rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createTokenServer, type ApplicationServer } from "../src/app";
+import type { TokenResponse } from "../src/types/schemas";
+import { GatedProvider, TEST_ENV, tempDir, waitFor } from "./helpers";
+
+type TokenBody = typeof TokenResponse.static;
+
+/**
+ * Reads `event:`/`data:` blocks off a Server-Sent Events response
+ */
+class EventReader {
+    private readonly chunks: AsyncIterator<Uint8Array>;
+    private readonly decoder = new TextDecoder();
+    private buffer = "";
+
+    constructor(response: Response) {
+        this.chunks = response.body![Symbol.asyncIterator]();
+    }
+
+    /** Next event with the given name, null once the stream has ended */
+    public async next(name: string): Promise<unknown> {
+        for (;;) {
+            const end = this.buffer.indexOf("\n\n");
+            if (end !== -1) {
+                const block = this.buffer.slice(0, end);
+                this.buffer = this.buffer.slice(end + 2);
+                const event = block.match(/^event: (.+)$/m)?.[1];
+                const data = block.match(/^data: (.+)$/m)?.[1];
+                if (event === name && data) return JSON.parse(data);
+                continue;
+            }
+
+            const { done, value } = await this.chunks.next();
+            if (done) return null;
+            this.buffer += this.decoder.decode(value, { stream: true });
+        }
+    }
+
+    /**
+     * Next token other than `previous` - the fetch that produced the initial token
+     * is broadcast to the new subscriber as a rotation too
+     */
+    public async nextToken(previous: string): Promise<TokenBody | null> {
+        for (;;) {
+            const token = await this.next("token") as TokenBody | null;
+            if (token?.accessToken !== previous) return token;
+        }
+    }
+
+    public async ended(): Promise<boolean> {
+        for (;;) {
+            const { done } = await this.chunks.next();
+            if (done) return true;
+        }
+    }
+}
+
+describe("token stream", () => {
+    const dir = tempDir();
+    let provider: GatedProvider;
+    let server: ApplicationServer;
+
+    function start(env: Record<string, string> = {}): void {
+        provider = new GatedProvider();
+        provider.openGate();
+        server = createTokenServer({ config: { env: { ...TEST_ENV, ...env }, file: null }, providers: [provider.entry()] });
+    }
+
+    afterEach(() => server.shutdown());
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    async function connect(path = "/api/token/stream", signal?: AbortSignal): Promise<EventReader> {
+        const response = await server.handle(new Request(`http://localhost${path}`, { signal }));
+        expect(response.status).toBe(200);
+        expect(response.headers.get("content-type")).toBe("text/event-stream");
+        return new EventReader(response);
+    }
+
+    test("an anonymous rotation reaches an SSE subscriber", async () => {
+        // Without the cooldown the forced refresh right after warm-up really fetches
+        start({ FORCE_REFRESH_COOLDOWN_MS: "0" });
+        const events = await connect();
+        const initial = await events.next("token") as TokenBody;
+        expect(initial.isAnonymous).toBe(true);
+
+        // Forcing while the warm-up refresh is still settling would just share it
+        await waitFor(() => !server.tokenService.getStatus().isRefreshing, 1000, "the warm-up refresh");
+        const forced = await server.tokenService.getToken(undefined, { force: true });
+        const rotated = (await events.nextToken(initial.accessToken))!;
+
+        expect(rotated.accessToken).toBe(forced!.token.accessToken);
+        expect(rotated.source).toBe("fresh");
+    });
+
+    test("closing the hub ends every stream", async () => {
+        start();
+        const first = await connect();
+        const second = await connect();
+        await first.next("token");
+        await second.next("token");
+
+        await server.shutdown();
+
+        expect(await first.ended()).toBe(true);
+        expect(await second.ended()).toBe(true);
+        expect(server["streamHub"].size).toBe(0);
+    });
+
+    test("accounts with subscribers are refreshed proactively", async () => {
+        const keysFile = join(dir, "keys.json");
+        writeFileSync(keysFile, JSON.stringify([{ key: "stream-key", spDc: "stream-account" }]));
+        // Tokens live 5 minutes, inside the 10 minute refresh buffer, so every check refreshes
+        start({ API_KEYS_FILE: keysFile, TOKEN_REFRESH_BUFFER_MS: "600000", TOKEN_REFRESH_CHECK_INTERVAL_MS: "1000" });
+        provider.ttlMs = 5 * 60 * 1000;
+
+        const abort = new AbortController();
+        const events = await connect("/api/token/stream?scope=account&api_key=stream-key", abort.signal);
+        const initial = await events.next("token") as TokenBody;
+        expect(initial.isAnonymous).toBe(false);
+
+        // Nothing but the scheduler fetches the account from here on
+        const refreshed = (await events.nextToken(initial.accessToken))!;
+        expect(refreshed.isAnonymous).toBe(false);
+        expect(provider.cookies.at(-1)).toEqual([{ name: "sp_dc", value: "stream-account" }]);
+
+        abort.abort();
+        await waitFor(() => server["streamHub"].size === 0, 1000, "the subscriber to leave");
+        expect(server.tokenService["watchedAccounts"].size).toBe(0);
+    });
+});
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { initConfig } from "../src/config";
+import { Spotify } from "../src/services/spotify";
+import type { Cookie, SpotifyToken, TokenFetchOptions, TokenProvider } from "../src/types/types";
+import { TokenFetchError } from "../src/utils/errors";
+import { TEST_ENV, waitFor } from "./helpers";
+
+/**
+ * Issues `<session>-<n>` tokens and fails every fetch for the sessions in `failing`
+ */
+class SessionProvider implements TokenProvider {
+    public readonly name = "sessions";
+    public readonly supportsAccounts = false;
+    public readonly sessions: Array<string | undefined> = [];
+    public readonly failing = new Set<string>();
+
+    public async getToken(_cookies?: Cookie[], options?: TokenFetchOptions): Promise<SpotifyToken> {
+        const session = options?.session;
+        this.sessions.push(session);
+        if (session && this.failing.has(session)) {
+            throw new TokenFetchError(`Session ${session} is down`, "navigation_failure");
+        }
+
+        return {
+            clientId: "pool-client",
+            accessToken: `${session ?? "primary"}-${this.sessions.length}`,
+            accessTokenExpirationTimestampMs: Date.now() + 60 * 60 * 1000,
+            isAnonymous: true,
+        };
+    }
+
+    public async close(): Promise<void> { }
+}
+
+describe("anonymous token pool", () => {
+    let provider: SessionProvider;
+    let service: Spotify;
+
+    function start(): void {
+        initConfig({
+            env: { ...TEST_ENV, ANONYMOUS_POOL_SIZE: "3", ANONYMOUS_POOL_STAGGER_MS: "20", FETCH_RETRY_ATTEMPTS: "1" },
+            file: null,
+        });
+        provider = new SessionProvider();
+        service = new Spotify({ providers: [{ provider, timeoutMs: 1000 }] });
+    }
+
+    afterEach(() => service.cleanup());
+
+    const usable = () => service.getStatus().anonymousPool!.usable;
+    const serve = async (count: number) => {
+        const tokens: string[] = [];
+        for (let i = 0; i < count; i++) tokens.push((await service.getToken())!.token.accessToken);
+        return tokens;
+    };
+
+    test("each extra slot fetches in its own session and requests rotate over all slots", async () => {
+        start();
+        await waitFor(() => usable() === 3, 2000, "every slot to be filled");
+
+        expect(new Set(provider.sessions)).toEqual(new Set([undefined, "anonymous-pool-1", "anonymous-pool-2"]));
+
+        const tokens = await serve(6);
+        expect(new Set(tokens).size).toBe(3);
+        expect(tokens.slice(3)).toEqual(tokens.slice(0, 3));
+    });
+
+    test("a failing slot is skipped until its session recovers", async () => {
+        start();
+        provider.failing.add("anonymous-pool-2");
+        await waitFor(() => usable() === 2 && provider.sessions.filter(s => s === "anonymous-pool-2").length >= 2, 2000, "slot 2 to fail");
+
+        const tokens = await serve(4);
+        expect(new Set(tokens).size).toBe(2);
+        expect(tokens.some(token => token.startsWith("anonymous-pool-2"))).toBe(false);
+        expect(service.getStatus().anonymousPool!.slots[2]!.valid).toBe(false);
+
+        // Still warming, so the pool keeps retrying the empty slot
+        provider.failing.clear();
+        await waitFor(() => usable() === 3, 2000, "slot 2 to recover");
+        const recovered = await serve(3);
+        expect(recovered.some(token => token.startsWith("anonymous-pool-2"))).toBe(true);
+    });
+});
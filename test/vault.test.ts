@@ -0,0 +1,86 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { initConfig } from "../src/config";
+import type { VaultFile } from "../src/config/files";
+import { AccountVault } from "../src/services/vault";
+import { ConfigValidationError, ForbiddenError, NotFoundError } from "../src/utils/errors";
+import { TEST_ENV, tempDir } from "./helpers";
+
+const SP_DC = "AQBvaultTestCookie-value==";
+
+describe("AccountVault", () => {
+    const dir = tempDir();
+    let path: string;
+    let run = 0;
+
+    beforeEach(() => {
+        path = join(dir, `vault-${++run}.json`);
+        initConfig({ env: { ...TEST_ENV, VAULT_FILE: path }, file: null });
+    });
+
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    const readFile = () => JSON.parse(readFileSync(path, "utf8")) as VaultFile;
+
+    test("accounts survive a reload and are never written in the clear", () => {
+        const vault = new AccountVault("correct horse");
+        vault.put("main", [{ name: "sp_dc", value: SP_DC }, { name: "sp_key", value: "key=" }]);
+
+        const raw = readFileSync(path, "utf8");
+        expect(raw).not.toContain(SP_DC);
+        expect(raw).not.toContain("sp_dc");
+        expect(readFile().accounts.main?.iv).toBeString();
+
+        const reloaded = new AccountVault("correct horse");
+        expect(reloaded.get("main").cookies).toEqual([{ name: "sp_dc", value: SP_DC }, { name: "sp_key", value: "key=" }]);
+        expect(reloaded.list().map(account => account.name)).toEqual(["main"]);
+    });
+
+    test("every write uses a fresh IV", () => {
+        const vault = new AccountVault("correct horse");
+        vault.put("main", [{ name: "sp_dc", value: SP_DC }]);
+        const first = readFile().accounts.main!;
+        vault.put("main", [{ name: "sp_dc", value: SP_DC }]);
+        const second = readFile().accounts.main!;
+
+        expect(second.iv).not.toBe(first.iv);
+        expect(second.data).not.toBe(first.data);
+        expect(second.createdAt).toBe(first.createdAt);
+    });
+
+    test("a wrong VAULT_KEY is refused", () => {
+        new AccountVault("correct horse").put("main", [{ name: "sp_dc", value: SP_DC }]);
+
+        expect(() => new AccountVault("battery staple")).toThrow(ConfigValidationError);
+    });
+
+    test.each(["data", "tag", "iv"] as const)("a tampered %s is refused", (field) => {
+        new AccountVault("correct horse").put("main", [{ name: "sp_dc", value: SP_DC }]);
+
+        const file = readFile();
+        const account = file.accounts.main!;
+        const bytes = Buffer.from(account[field], "base64");
+        bytes[0] = bytes[0]! ^ 0xff;
+        account[field] = bytes.toString("base64");
+        writeFileSync(path, JSON.stringify(file));
+
+        expect(() => new AccountVault("correct horse")).toThrow(ConfigValidationError);
+    });
+
+    test("without a key the vault is disabled", () => {
+        const vault = new AccountVault("");
+
+        expect(vault.enabled).toBe(false);
+        expect(() => vault.get("main")).toThrow(ForbiddenError);
+    });
+
+    test("unknown accounts and invalid input are rejected", () => {
+        const vault = new AccountVault("correct horse");
+
+        expect(() => vault.get("missing")).toThrow(NotFoundError);
+        expect(() => vault.put("no spaces", [{ name: "sp_dc", value: SP_DC }])).toThrow("Account names");
+        expect(() => vault.put("main", [{ name: "sp_key", value: "x" }])).toThrow("sp_dc cookie is required");
+        expect(vault.delete("missing")).toBe(false);
+    });
+});
@@ -0,0 +1,114 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { createHmac } from "node:crypto";
+import type { Server } from "bun";
+import { initConfig } from "../src/config";
+import { Spotify } from "../src/services/spotify";
+import { WebhookDispatcher } from "../src/services/webhooks";
+import type { ServiceEvent } from "../src/types/types";
+import { GatedProvider, TEST_ENV, waitFor } from "./helpers";
+
+interface Received {
+    headers: Headers;
+    body: string;
+}
+
+const EVENT: ServiceEvent = { type: "browser.recycled", timestamp: 1767225600000, data: { reason: "test" } };
+
+describe("WebhookDispatcher", () => {
+    let receiver: Server<undefined>;
+    let received: Received[] = [];
+    /** Statuses to answer with, in order; 200 once they run out */
+    let statuses: number[] = [];
+    let provider: GatedProvider;
+    let service: Spotify;
+    let dispatcher: WebhookDispatcher;
+
+    beforeAll(() => {
+        receiver = Bun.serve({
+            port: 0,
+            fetch: async (request) => {
+                received.push({ headers: request.headers, body: await request.text() });
+                return new Response(null, { status: statuses.shift() ?? 200 });
+            },
+        });
+    });
+
+    afterEach(async () => {
+        dispatcher.close();
+        provider.release();
+        await service.cleanup();
+        received = [];
+        statuses = [];
+    });
+
+    afterAll(() => receiver.stop(true));
+
+    function start(env: Record<string, string> = {}): void {
+        initConfig({
+            env: {
+                ...TEST_ENV,
+                WEBHOOK_URL: `http://localhost:${receiver.port}/hook`,
+                WEBHOOK_EVENTS: "browser.recycled",
+                WEBHOOK_RETRY_BASE_DELAY_MS: "10",
+                WEBHOOK_RETRY_MAX_DELAY_MS: "20",
+                ...env,
+            },
+            file: null,
+        });
+        provider = new GatedProvider();
+        service = new Spotify({ providers: [provider.entry()] });
+        dispatcher = new WebhookDispatcher(service);
+    }
+
+    const settled = () => waitFor(() => dispatcher.getStatus().queued === 0 && dispatcher.getStatus().inFlight === 0, 2000, "the webhook queue to drain");
+
+    test("deliveries are signed with HMAC-SHA256 over the timestamp and body", async () => {
+        start({ WEBHOOK_SECRET: "webhook-secret" });
+
+        dispatcher.enqueue(EVENT);
+        await waitFor(() => received.length === 1, 2000, "the delivery");
+
+        const [{ headers, body }] = received as [Received];
+        const timestamp = headers.get("x-spotokn-timestamp")!;
+        const expected = createHmac("sha256", "webhook-secret").update(`${timestamp}.${body}`).digest("hex");
+
+        expect(headers.get("x-spotokn-signature")).toBe(`sha256=${expected}`);
+        expect(headers.get("x-spotokn-event")).toBe("browser.recycled");
+        expect(JSON.parse(body)).toEqual({ id: headers.get("x-spotokn-delivery"), ...EVENT });
+        expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(5);
+    });
+
+    test("deliveries without a secret are not signed", async () => {
+        start();
+
+        dispatcher.enqueue(EVENT);
+        await waitFor(() => received.length === 1, 2000, "the delivery");
+
+        expect(received[0]!.headers.has("x-spotokn-signature")).toBe(false);
+    });
+
+    test("a non-2xx response is retried until the receiver accepts it", async () => {
+        start();
+        statuses = [503, 500];
+
+        dispatcher.enqueue(EVENT);
+        await waitFor(() => received.length === 3, 2000, "the retries");
+        await settled();
+
+        const deliveryIds = received.map(delivery => delivery.headers.get("x-spotokn-delivery"));
+        expect(new Set(deliveryIds).size).toBe(1);
+        expect(received.map(delivery => delivery.body)).toEqual(Array(3).fill(received[0]!.body));
+    });
+
+    test("retries stop after WEBHOOK_MAX_ATTEMPTS", async () => {
+        start({ WEBHOOK_MAX_ATTEMPTS: "2" });
+        statuses = [500, 500, 500];
+
+        dispatcher.enqueue(EVENT);
+        await waitFor(() => received.length === 2, 2000, "the retry");
+        await settled();
+        await Bun.sleep(50);
+
+        expect(received).toHaveLength(2);
+    });
+});